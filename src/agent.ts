@@ -9,19 +9,32 @@
  */
 
 import { version } from '../package.json';
-import type { BrowserSignals } from './types';
-import { computeBrowserSignals } from './computeBrowserSignals';
-import { computeVisitorId } from './anchor';
+import type { BrowserSignals, Components } from './types';
+import { CollectedSignals, SignalsCollection, startBrowserSignalsCollection } from './computeBrowserSignals';
+import { AnchorVersion, computeVisitorIdAsync, latestAnchorVersion, VisitorIdFormat } from './anchor';
+import { computeConfidence, Confidence } from './confidence';
+import type { SourceRegistry } from './registry';
+import { detectTampering, TamperingResult } from './detectors/tampering';
+import { BotResult, detectBot } from './detectors/bot';
+import { detectPrivacyProtection, PrivacyResult } from './detectors/privacy';
+import { detectVirtualization, VirtualizationResult } from './detectors/virtualization';
+import { wait, waitForAbort } from './utils/async';
 
 /**
  * Configuration options for initializing the GuardianJS agent.
  * 
  * @interface LoadOptions
  * @property {boolean} [debug] - Whether to print debug information (anchor payload and timing) to the console.
+ * @property {SourceRegistry} [sources] - The signal sources to collect. Defaults to the built-in sources.
+ * @property {number} [timeout] - Overall time budget of the signal collection, in milliseconds.
+ * @property {AbortSignal} [signal] - Aborts the signal collection.
+ * @property {AnchorVersion} [anchorVersion] - The anchor scheme version used to compute the visitorId.
+ * @property {VisitorIdFormat} [idFormat] - Format of the visitorId.
+ * @property {string} [siteKey] - Secret key that makes the visitorId specific to the site.
  * 
  * @example
  * ```typescript
- * const agent = await load({ debug: true });
+ * const agent = await load({ debug: true, timeout: 2000 });
  * ```
  */
 export interface LoadOptions {
@@ -29,6 +42,38 @@ export interface LoadOptions {
    * Whether to print debug information (anchor payload and timing) to the console.
    */
   debug?: boolean;
+  /**
+   * The signal sources to collect, as built with `createSourceRegistry()`.
+   * Defaults to the built-in sources.
+   */
+  sources?: SourceRegistry;
+  /**
+   * Overall time budget of the signal collection, in milliseconds. Sources that don't complete
+   * in time are reported with the `timeout` status and left out of the anchor. Unlimited by default.
+   */
+  timeout?: number;
+  /**
+   * Aborts the signal collection. Sources that haven't completed are reported with the `aborted` status
+   * and left out of the anchor.
+   */
+  signal?: AbortSignal;
+  /**
+   * The anchor scheme version used to compute the visitorId. Defaults to the latest version.
+   * Pin it to keep the visitorIds unchanged across library upgrades that introduce a new anchor scheme.
+   */
+  anchorVersion?: AnchorVersion;
+  /**
+   * Format of the visitorId: `legacy` (the default, 64-bit hexadecimal) or a 128-bit identifier
+   * encoded as `hex`, `base62`, `base32` or `uuid`.
+   */
+  idFormat?: VisitorIdFormat;
+  /**
+   * Secret key that makes the visitorId and the component hashes specific to the site. They are derived
+   * with HMAC-SHA-256, so they are stable on the site but can't be linked to the IDs of sites using other keys.
+   * The visitorId is computed with Web Crypto where available, the component hashes in pure JS.
+   * Changing the key changes every visitorId.
+   */
+  siteKey?: string;
 }
 
 /**
@@ -36,10 +81,12 @@ export interface LoadOptions {
  * 
  * @interface GetOptions
  * @property {boolean} [debug] - Per-call debug override. If true, debug output is printed even when `load({ debug: false })`.
+ * @property {number} [timeout] - Maximum time to wait for the signals, in milliseconds.
+ * @property {AbortSignal} [signal] - Stops waiting for the signals.
  * 
  * @example
  * ```typescript
- * const result = await agent.get({ debug: true });
+ * const result = await agent.get({ debug: true, timeout: 500 });
  * ```
  */
 export interface GetOptions {
@@ -47,6 +94,18 @@ export interface GetOptions {
    * Per-call debug override. If true, debug output is printed even when `load({ debug: false })`.
    */
   debug?: boolean;
+  /**
+   * Maximum time to wait for the signals, in milliseconds, counted from the `get()` call.
+   * When the time is up, `get()` resolves with a visitorId computed from the sources completed so far;
+   * the other sources are reported with the `timeout` status. The collection keeps running, so a
+   * later `get()` call can return the complete result.
+   */
+  timeout?: number;
+  /**
+   * Stops waiting for the signals. When aborted, `get()` resolves with a visitorId computed from the
+   * sources completed so far; the other sources are reported with the `aborted` status.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -55,7 +114,16 @@ export interface GetOptions {
  * @interface GetResult
  * @property {string} visitorId - Anchor-based visitor identifier derived purely on the client.
  * @property {Record<string, unknown>} anchor - Structured anchor payload built from device- and browser-level signals.
+ * @property {AnchorVersion} anchorVersion - Version of the anchor scheme the visitorId was computed with.
+ * @property {Record<string, string>} componentHashes - Stable hash of every anchor component.
+ * @property {string} similarityHash - Locality-sensitive SimHash digest of the anchor components.
+ * @property {Confidence} confidence - How distinctive the visitorId is, with the reasons of a lowered score.
+ * @property {TamperingResult} tampering - The browser APIs that were overridden or proxied, e.g. by a spoofing extension.
+ * @property {PrivacyResult} privacy - The active privacy protection (Brave, Tor Browser, etc.) and the anchor components it makes unreliable.
+ * @property {BotResult} bot - Whether the browser is automated (headless, Puppeteer, Playwright, Selenium), with the triggered indicators.
+ * @property {VirtualizationResult} virtualized - Whether the browser runs in a virtual machine, an emulator or on a software renderer.
  * @property {BrowserSignals} signals - Full browser signal bag as collected by the Guardian JS agent.
+ * @property {Components} components - Per-source collection envelopes (value, duration, status, error).
  * @property {string} version - GuardianJS library version.
  * 
  * @example
@@ -75,10 +143,54 @@ export interface GetResult {
    * Structured anchor payload built from device- and browser-level signals.
    */
   anchor: Record<string, unknown>;
+  /**
+   * Version of the anchor scheme the visitorId was computed with. Store it along with the visitorId
+   * to be able to recompute the visitorId under the same scheme after a library upgrade.
+   */
+  anchorVersion: AnchorVersion;
+  /**
+   * Stable hash of every anchor component, keyed by its dotted path (e.g. `gpu`, `webgl.params`).
+   */
+  componentHashes: Record<string, string>;
+  /**
+   * Locality-sensitive SimHash digest of the anchor components; compare digests with `hammingDistance`.
+   */
+  similarityHash: string;
+  /**
+   * How distinctive the visitorId is: a score between 0 and 1 derived from the anchor components
+   * that were collected, with human-readable reasons of a lowered score.
+   */
+  confidence: Confidence;
+  /**
+   * The browser APIs the sources depend on that were overridden, proxied or had their descriptors
+   * altered, e.g. by an anti-fingerprinting or spoofing extension. The affected signals can't be trusted.
+   */
+  tampering: TamperingResult;
+  /**
+   * Whether the browser is a headless browser or is driven by an automation framework
+   * (Puppeteer, Playwright, Selenium, etc.), with the list of triggered indicators.
+   */
+  bot: BotResult;
+  /**
+   * The active privacy protection (Brave, Tor Browser, Firefox `resistFingerprinting`, Safari Advanced
+   * Fingerprinting Protection) and the anchor components it spoofs or randomizes. These components
+   * don't count towards the confidence.
+   */
+  privacy: PrivacyResult;
+  /**
+   * Whether the browser likely runs in a virtual machine (VMware, VirtualBox, etc.), an Android emulator
+   * or on a software renderer, with the evidence drawn from the GPU, CPU, memory and timer signals.
+   */
+  virtualized: VirtualizationResult;
   /**
    * Full browser signal bag as collected by the Guardian JS agent.
    */
   signals: BrowserSignals;
+  /**
+   * Per-source collection envelopes keyed by source name: the value, the collection duration,
+   * the status (e.g. `noGlContext`) and the serialized error, if the source failed.
+   */
+  components: Components;
   /**
    * GuardianJS library version.
    */
@@ -112,6 +224,25 @@ export interface Agent {
   get(options?: Readonly<GetOptions>): Promise<GetResult>;
 }
 
+/**
+ * Waits for the signal collection to complete, no longer than the `get()` options allow.
+ * 
+ * @internal
+ * @param {SignalsCollection} collection - The running browser signal collection.
+ * @param {Readonly<GetOptions>} [options] - The `get()` options with the time limit and abort signal.
+ * @returns {Promise<CollectedSignals>} The complete signals, or the partial signals if the wait was cut short.
+ */
+function waitForSignals(collection: SignalsCollection, options?: Readonly<GetOptions>): Promise<CollectedSignals> {
+  const outcomes = [
+    collection.complete,
+    waitForAbort(options?.signal).then(() => collection.snapshot('aborted')),
+  ];
+  if (options?.timeout !== undefined) {
+    outcomes.push(wait(options.timeout).then(() => collection.snapshot('timeout')));
+  }
+  return Promise.race(outcomes);
+}
+
 /**
  * Builds an Agent instance that lazily computes the visitorId from the collected signals.
  * 
@@ -119,18 +250,33 @@ export interface Agent {
  * the first `get()` call, allowing for efficient initialization without blocking.
  * 
  * @internal
- * @param {Promise<BrowserSignals>} signalsPromise - A promise that resolves to the collected browser signals.
+ * @param {SignalsCollection} collection - The running browser signal collection.
  * @param {boolean} [debug] - Whether to enable debug output for all get() calls.
+ * @param {{ anchorVersion: AnchorVersion, idFormat?: VisitorIdFormat, siteKey?: string }} visitorIdOptions - The anchor
+ *   scheme version, the visitorId format and the site key.
  * @returns {Agent} An agent instance with a get() method.
  */
-function makeAgent(signalsPromise: Promise<BrowserSignals>, debug?: boolean): Agent {
+function makeAgent(
+  collection: SignalsCollection,
+  debug: boolean | undefined,
+  visitorIdOptions: { anchorVersion: AnchorVersion; idFormat?: VisitorIdFormat; siteKey?: string },
+): Agent {
+  const { anchorVersion } = visitorIdOptions;
   const creationTime = Date.now();
 
   return {
     async get(options?: Readonly<GetOptions>): Promise<GetResult> {
       const startTime = Date.now();
-      const signals = await signalsPromise;
-      const { anchor, visitorId } = computeVisitorId(signals);
+      const { signals, components } = await waitForSignals(collection, options);
+      const { visitorId, anchor, componentHashes, similarityHash } = await computeVisitorIdAsync(
+        signals,
+        visitorIdOptions,
+      );
+      const privacy = detectPrivacyProtection(signals);
+      const confidence = computeConfidence(anchor, signals, privacy, anchorVersion);
+      const tampering = detectTampering();
+      const bot = detectBot(signals);
+      const virtualized = detectVirtualization(signals);
 
       if (debug || options?.debug) {
         // eslint-disable-next-line no-console
@@ -140,6 +286,12 @@ function makeAgent(signalsPromise: Promise<BrowserSignals>, debug?: boolean): Ag
             `userAgent: ${signals.userAgent}\n` +
             `timeBetweenLoadAndGet: ${startTime - creationTime}ms\n` +
             `visitorId: ${visitorId}\n` +
+            `anchorVersion: ${anchorVersion}\n` +
+            `confidence: ${confidence.score}\n` +
+            `tampering: ${tampering.detected}\n` +
+            `bot: ${bot.detected ? bot.kind : false}\n` +
+            `privacy: ${privacy.protection ?? false}\n` +
+            `virtualized: ${virtualized.likely ? virtualized.kind : false}\n` +
             `anchor: ${JSON.stringify(anchor, null, 2)}\n`,
         );
       }
@@ -147,7 +299,16 @@ function makeAgent(signalsPromise: Promise<BrowserSignals>, debug?: boolean): Ag
       return {
         visitorId,
         anchor,
+        anchorVersion,
+        componentHashes,
+        similarityHash,
+        confidence,
+        tampering,
+        bot,
+        privacy,
+        virtualized,
         signals,
+        components,
         version,
       };
     },
@@ -178,14 +339,25 @@ function makeAgent(signalsPromise: Promise<BrowserSignals>, debug?: boolean): Ag
  * // With debug enabled
  * const debugAgent = await load({ debug: true });
  * const debugResult = await debugAgent.get();
+ * 
+ * // With a custom source
+ * const sources = createSourceRegistry().registerSource('appCapabilities', probeAppCapabilities);
+ * const customAgent = await load({ sources });
+ * 
+ * // With a per-site visitorId
+ * const siteAgent = await load({ siteKey: 'shop.example' });
+ * 
+ * // Within a latency budget
+ * const fastAgent = await load({ timeout: 2000 });
+ * const fastResult = await fastAgent.get({ timeout: 300 });
  * ```
  * 
  * @public
  */
 export async function load(options: Readonly<LoadOptions> = {}): Promise<Agent> {
-  const { debug } = options;
-  const signalsPromise = computeBrowserSignals();
-  return makeAgent(signalsPromise, debug);
+  const { debug, sources, timeout, signal, anchorVersion = latestAnchorVersion, idFormat, siteKey } = options;
+  const collection = startBrowserSignalsCollection(sources, { timeout, signal });
+  return makeAgent(collection, debug, { anchorVersion, idFormat, siteKey });
 }
 
 
@@ -8,11 +8,29 @@
  * The anchor excludes volatile signals like User-Agent, platform, DPR, and viewport
  * dimensions to maximize stability while maintaining sufficient entropy for identification.
  * 
+ * Anchor schemes are versioned: once released, a scheme never changes, so that stored
+ * visitorIds can be recomputed (and migrated) after a library upgrade. Changes to the
+ * anchor are made in a new scheme version.
+ * 
  * @module anchor
  */
 
 import type { BrowserSignals } from './types';
-import { canonicalize, normalizeString, stableHash } from './hash';
+import type { AudioDeviceInfo } from './sources/audioDevice';
+import type { CanvasFingerprint } from './sources/canvas';
+import type { EmeInfo } from './sources/eme';
+import type { WebGlExtensionsPayload } from './sources/webgl';
+import {
+  canonicalize,
+  DigestEncoding,
+  encodeDigest,
+  hmacSha256,
+  hmacSha256Async,
+  normalizeString,
+  simHash,
+  stableHash,
+  stableHash128,
+} from './hash';
 
 /**
  * A normalized, stable payload derived from browser signals.
@@ -36,6 +54,133 @@ import { canonicalize, normalizeString, stableHash } from './hash';
  */
 export type AnchorPayload = Record<string, unknown>;
 
+/**
+ * Version of an anchor scheme. Every version produces its own, stable visitorIds.
+ * 
+ * @typedef {number} AnchorVersion
+ */
+export type AnchorVersion = 1 | 2 | 3;
+
+/**
+ * The anchor scheme versions available in this build, oldest first.
+ * 
+ * @constant
+ */
+export const anchorVersions: readonly AnchorVersion[] = [1, 2, 3];
+
+/**
+ * The anchor scheme version used when none is specified.
+ * 
+ * @constant
+ */
+export const latestAnchorVersion: AnchorVersion = 3;
+
+/**
+ * Approximate entropy of the anchor components, in bits, as observed across real traffic.
+ * The values only need to be right relative to each other. Components are named by their
+ * dotted path in the anchor payload.
+ * 
+ * @internal
+ */
+export const anchorComponentEntropy = {
+  gpu: 7,
+  'webgl.ext': 3,
+  'webgl.xExt': 3,
+  'webgl.params': 6,
+  'webgl.shader': 2,
+  hw: 2.5,
+  mem: 1.5,
+  audio: 4,
+  math: 1.5,
+  webgpu: 1,
+  eme: 0.5,
+  pt: 2,
+  webgl2: 3,
+  webgpuCompute: 4,
+  mediaCodecs: 3,
+  audioDevice: 1.5,
+  audioGraphs: 3,
+  canvas: 6,
+  fonts: 5,
+  voices: 4,
+  webglRendering: 5,
+};
+
+/**
+ * Dotted path of a built-in anchor component.
+ * 
+ * @typedef {string} AnchorComponentName
+ */
+export type AnchorComponentName = keyof typeof anchorComponentEntropy;
+
+/**
+ * The anchor scheme version that added each component missing from the original anchor.
+ * 
+ * @internal
+ */
+export const anchorComponentVersions: Partial<Record<AnchorComponentName, AnchorVersion>> = {
+  webgl2: 3,
+  webgpuCompute: 3,
+  mediaCodecs: 3,
+  audioDevice: 3,
+  audioGraphs: 3,
+  canvas: 3,
+  fonts: 3,
+  voices: 3,
+  webglRendering: 3,
+};
+
+/**
+ * Weight of the anchor components without a known entropy, such as custom sources.
+ * @internal
+ */
+const unknownComponentEntropy = 1;
+
+/**
+ * Anchor payload keys that group several components rather than being a component themselves.
+ * @internal
+ */
+const componentGroups = new Set(['webgl', 'custom']);
+
+/**
+ * Options for computing the anchor.
+ * 
+ * @interface AnchorOptions
+ * @property {AnchorVersion} [anchorVersion] - The anchor scheme version. Defaults to `latestAnchorVersion`.
+ */
+export interface AnchorOptions {
+  /**
+   * The anchor scheme version. Defaults to `latestAnchorVersion`.
+   */
+  anchorVersion?: AnchorVersion;
+}
+
+/**
+ * The visitorId computed under a single anchor scheme.
+ * 
+ * @interface VisitorIdResult
+ * @property {AnchorPayload} anchor - The anchor payload.
+ * @property {string} visitorId - The visitor identifier.
+ * @property {AnchorVersion} anchorVersion - The anchor scheme version.
+ * @property {Record<string, string>} componentHashes - Stable hash of every anchor component, keyed by its dotted path.
+ * @property {string} similarityHash - Locality-sensitive SimHash digest of the anchor components.
+ */
+export interface VisitorIdResult {
+  anchor: AnchorPayload;
+  visitorId: string;
+  anchorVersion: AnchorVersion;
+  /**
+   * Stable hash of every anchor component, keyed by its dotted path (e.g. `gpu`, `webgl.ext`, `audio`).
+   * Allows indexing visitors for partial matching without storing the raw signals.
+   */
+  componentHashes: Record<string, string>;
+  /**
+   * Locality-sensitive SimHash digest (16 hexadecimal characters) of the anchor components.
+   * The `hammingDistance` between two digests grows with the entropy-weighted number of differing components.
+   */
+  similarityHash: string;
+}
+
 /**
  * Builds a stable anchor signature from robust, device‑level signals that
  * should not change with viewport emulation or minor browser configuration
@@ -50,8 +195,10 @@ export type AnchorPayload = Record<string, unknown>;
  * - Audio fingerprint
  * - Math fingerprint (floating-point quirks)
  * - WebGPU support info
- * - EME (Widevine) support
+ * - EME key system support (a Widevine flag in version 1, the hash of all the key systems since version 2)
  * - Performance timing characteristics
+ * - Custom sources registered with `includeInAnchor: true`
+ * - Optional built-in sources configured with `includeInAnchor: true` (since version 3)
  * 
  * Excluded from the anchor:
  * - User-Agent string
@@ -60,18 +207,37 @@ export type AnchorPayload = Record<string, unknown>;
  * - Viewport dimensions
  * 
  * @param {Partial<BrowserSignals>} b - The browser signals to process.
+ * @param {AnchorOptions} [options] - The anchor scheme version.
  * @returns {AnchorPayload} A normalized anchor payload with deterministic key ordering.
  * 
  * @example
  * ```typescript
  * const signals = await computeBrowserSignals();
  * const anchor = computeAnchor(signals);
- * console.log(anchor);
+ * const anchorV1 = computeAnchor(signals, { anchorVersion: 1 });
  * ```
  * 
  * @public
  */
-export function computeAnchor(b: Partial<BrowserSignals>): AnchorPayload {
+export function computeAnchor(b: Partial<BrowserSignals>, options: AnchorOptions = {}): AnchorPayload {
+  const anchorVersion = options.anchorVersion ?? latestAnchorVersion;
+  const buildAnchor = anchorSchemes[anchorVersion];
+  if (!buildAnchor) {
+    throw new Error(`Unknown anchor version: ${anchorVersion}`);
+  }
+
+  // Canonicalize to ensure deterministic key ordering; parse back to a plain object.
+  return JSON.parse(canonicalize(buildAnchor(b)));
+}
+
+/**
+ * Anchor scheme version 1: the original GuardianJS Free anchor.
+ * 
+ * @internal
+ * @param {Partial<BrowserSignals>} b - The browser signals to process.
+ * @returns {Record<string, unknown>} The anchor, before canonicalization.
+ */
+function computeAnchorV1(b: Partial<BrowserSignals>): Record<string, unknown> {
   const vendor = normalizeString(b.webgl?.vendorUnmasked || b.webgl?.vendor);
   const renderer = normalizeString(b.webgl?.rendererUnmasked || b.webgl?.renderer);
   const gpu = vendor || renderer ? { vendor, renderer } : undefined;
@@ -83,14 +249,19 @@ export function computeAnchor(b: Partial<BrowserSignals>): AnchorPayload {
 
   const hw = typeof b.hardwareConcurrency === 'number' ? b.hardwareConcurrency : undefined;
   const mem = typeof b.deviceMemory === 'number' ? b.deviceMemory : undefined;
+  // Special audio fingerprints (timeouts, unsupported browsers) are objects and are left out of the anchor.
   const audio = typeof b.audioFingerprint === 'number' ? b.audioFingerprint : undefined;
   const math = b.mathFingerprint ? b.mathFingerprint : undefined;
   const webgpu = b.webgpu ? { supported: !!b.webgpu.supported, isFallbackAdapter: !!b.webgpu.isFallbackAdapter } : undefined;
   const eme = typeof b.eme?.widevineSupported === 'boolean' ? (b.eme.widevineSupported ? 1 : 0) : undefined;
-  const pt = b.performanceTiming ? stableHash(b.performanceTiming) : undefined;
+  // The resolution was added later, so it's left out to keep the released schemes unchanged
+  const pt = b.performanceTiming
+    ? stableHash({ precision: b.performanceTiming.precision, baseline: b.performanceTiming.baseline })
+    : undefined;
+  const custom = computeCustomAnchor(b);
 
   // Exclude UA, platform, DPR, viewport from the anchor to keep stability across responsive emulation.
-  const anchor = {
+  return {
     gpu,
     webgl: {
       ext: webglExtApp ? stableHash(webglExtApp) : undefined,
@@ -105,39 +276,517 @@ export function computeAnchor(b: Partial<BrowserSignals>): AnchorPayload {
     webgpu,
     eme,
     pt,
+    custom,
   };
+}
 
-  // Canonicalize to ensure deterministic key ordering; parse back to a plain object.
-  return JSON.parse(canonicalize(anchor));
+/**
+ * Anchor scheme version 2: the EME component hashes the support of every probed key system
+ * (robustness levels, persistent licenses, distinctive identifier) instead of the Widevine flag.
+ * 
+ * @internal
+ * @param {Partial<BrowserSignals>} b - The browser signals to process.
+ * @returns {Record<string, unknown>} The anchor, before canonicalization.
+ */
+function computeAnchorV2(b: Partial<BrowserSignals>): Record<string, unknown> {
+  return { ...computeAnchorV1(b), eme: computeEmeAnchor(b.eme) };
+}
+
+/**
+ * Anchor scheme version 3: adds the optional built-in sources that are configured with
+ * `includeInAnchor: true`. Without them, the anchor is the same as in version 2.
+ * 
+ * @internal
+ * @param {Partial<BrowserSignals>} b - The browser signals to process.
+ * @returns {Record<string, unknown>} The anchor, before canonicalization.
+ */
+function computeAnchorV3(b: Partial<BrowserSignals>): Record<string, unknown> {
+  // Optional built-in sources only feed the anchor when opted in, so that the other anchors are unchanged
+  const webgl2 = b.anchorSources?.includes('webgl2') ? computeWebGl2Anchor(b.webgl2) : undefined;
+  const webgpuCompute =
+    b.anchorSources?.includes('webgpuCompute') && b.webgpuCompute !== 'unsupported' ? b.webgpuCompute : undefined;
+  const mediaCodecs =
+    b.anchorSources?.includes('mediaCodecs') && b.mediaCodecs ? stableHash(b.mediaCodecs) : undefined;
+  const audioDevice = b.anchorSources?.includes('audioDevice') ? computeAudioDeviceAnchor(b.audioDevice) : undefined;
+  const audioGraphs =
+    b.anchorSources?.includes('audioGraphs') && b.audioGraphs && !('special' in b.audioGraphs)
+      ? stableHash(b.audioGraphs)
+      : undefined;
+  const canvas = b.anchorSources?.includes('canvas') ? computeCanvasAnchor(b.canvas) : undefined;
+  const fonts = b.anchorSources?.includes('fonts') ? b.fonts?.hash : undefined;
+  const voices = b.anchorSources?.includes('voices') ? b.voices?.hash : undefined;
+  const webglRendering =
+    b.anchorSources?.includes('webglRendering') && isStableImage(b.webglRendering) ? b.webglRendering : undefined;
+  return {
+    ...computeAnchorV2(b),
+    webgl2,
+    webgpuCompute,
+    mediaCodecs,
+    audioDevice,
+    audioGraphs,
+    canvas,
+    fonts,
+    voices,
+    webglRendering,
+  };
+}
+
+/**
+ * Builders of every anchor scheme version. Released schemes must never change.
+ * 
+ * @internal
+ */
+const anchorSchemes: Record<AnchorVersion, (b: Partial<BrowserSignals>) => Record<string, unknown>> = {
+  1: computeAnchorV1,
+  2: computeAnchorV2,
+  3: computeAnchorV3,
+};
+
+/**
+ * Hashes the values of the custom sources that are included in the anchor.
+ * 
+ * @internal
+ * @param {Partial<BrowserSignals>} b - The browser signals to process.
+ * @returns {Record<string, string> | undefined} Source value hashes keyed by source name, or undefined if there are none.
+ */
+function computeCustomAnchor(b: Partial<BrowserSignals>): Record<string, string> | undefined {
+  let custom: Record<string, string> | undefined;
+  for (const name of b.anchorSources ?? []) {
+    const value = b.custom?.[name];
+    if (value !== undefined) {
+      custom = { ...custom, [name]: stableHash(value) };
+    }
+  }
+  return custom;
+}
+
+/**
+ * Hashes the support of the probed EME key systems.
+ * 
+ * @internal
+ * @param {EmeInfo} [eme] - The EME information.
+ * @returns {string | undefined} The hash, or undefined if the detection was not possible.
+ */
+function computeEmeAnchor(eme?: EmeInfo): string | undefined {
+  return eme?.keySystems ? stableHash(eme.keySystems) : undefined;
+}
+
+/**
+ * Hashes the WebGL2 extensions, parameters and shader precisions. The lists are sorted, like
+ * their WebGL 1 counterparts, so that the order the browser reports them in doesn't matter.
+ * 
+ * @internal
+ * @param {WebGlExtensionsPayload} [webgl2] - The WebGL2 payload.
+ * @returns {string | undefined} The hash, or undefined if WebGL2 is unavailable.
+ */
+function computeWebGl2Anchor(webgl2?: WebGlExtensionsPayload): string | undefined {
+  if (!webgl2) {
+    return undefined;
+  }
+  return stableHash({
+    ext: [...new Set(webgl2.extensions ?? [])].sort(),
+    params: [...webgl2.parameters].sort(),
+    shader: [...webgl2.shaderPrecisions].sort(),
+  });
+}
+
+/**
+ * Hashes the audio output device properties that don't depend on the context state.
+ * The output latency is left out: some browsers report it only once the context runs.
+ * 
+ * @internal
+ * @param {AudioDeviceInfo} [audioDevice] - The audio output device properties.
+ * @returns {string | undefined} The hash, or undefined if the browser has no `AudioContext`.
+ */
+function computeAudioDeviceAnchor(audioDevice?: AudioDeviceInfo): string | undefined {
+  if (!audioDevice) {
+    return undefined;
+  }
+  const { sampleRate, baseLatency, maxChannelCount } = audioDevice;
+  return stableHash({ sampleRate, baseLatency, maxChannelCount });
+}
+
+/**
+ * Hashes the stable images of the canvas fingerprint. Unstable (randomized) and unsupported
+ * images are left out.
+ * 
+ * @internal
+ * @param {CanvasFingerprint} [canvas] - The canvas fingerprint.
+ * @returns {string | undefined} The hash, or undefined if no image is stable.
+ */
+function computeCanvasAnchor(canvas?: CanvasFingerprint): string | undefined {
+  if (!canvas) {
+    return undefined;
+  }
+  const text = isStableImage(canvas.text) ? canvas.text : undefined;
+  const geometry = isStableImage(canvas.geometry) ? canvas.geometry : undefined;
+  return text || geometry ? stableHash({ winding: canvas.winding, text, geometry }) : undefined;
+}
+
+/**
+ * Checks whether a rendered image holds a pixel hash rather than a special state.
+ * 
+ * @internal
+ * @param {string} [image] - The image hash or special state.
+ * @returns {boolean} True if the image is a hash.
+ */
+function isStableImage(image?: string): image is string {
+  return !!image && image !== 'unstable' && image !== 'unsupported';
+}
+
+/**
+ * Reads an anchor component by its dotted path (e.g. `webgl.params`).
+ * 
+ * @internal
+ * @param {AnchorPayload} anchor - The anchor payload.
+ * @param {string} path - Dotted path of the component.
+ * @returns {unknown} The component value, or undefined if it's missing.
+ */
+export function getAnchorComponent(anchor: AnchorPayload, path: string): unknown {
+  let value: unknown = anchor;
+  for (const key of path.split('.')) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+/**
+ * Lists the dotted paths of the components present in an anchor payload.
+ * 
+ * @internal
+ * @param {AnchorPayload} anchor - The anchor payload.
+ * @returns {string[]} The component paths.
+ */
+function listAnchorComponents(anchor: AnchorPayload): string[] {
+  const paths: string[] = [];
+  for (const key of Object.keys(anchor)) {
+    const value = anchor[key];
+    if (componentGroups.has(key) && value && typeof value === 'object') {
+      paths.push(...Object.keys(value).map((subKey) => `${key}.${subKey}`));
+    } else {
+      paths.push(key);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Hashes every component of an anchor payload.
+ * 
+ * @internal
+ * @param {AnchorPayload} anchor - The anchor payload.
+ * @param {string} [siteKey] - Secret key of the site, for keyed 64-bit hashes.
+ * @returns {Record<string, string>} Component hashes keyed by dotted path.
+ */
+function hashAnchorComponents(anchor: AnchorPayload, siteKey?: string): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const path of listAnchorComponents(anchor).sort()) {
+    const component = getAnchorComponent(anchor, path);
+    hashes[path] =
+      siteKey === undefined ? stableHash(component) : hmacSha256(siteKey, canonicalize(component)).slice(0, 16);
+  }
+  return hashes;
+}
+
+/**
+ * Gets the weight of an anchor component: its approximate entropy, if known.
+ * 
+ * @internal
+ * @param {string} path - Dotted path of the component.
+ * @returns {number} The component weight.
+ */
+function getComponentWeight(path: string): number {
+  return (anchorComponentEntropy as Record<string, number>)[path] ?? unknownComponentEntropy;
+}
+
+/**
+ * The result of comparing two anchors.
+ * 
+ * @interface AnchorComparison
+ * @property {number} similarity - Weighted share of the components that match, between 0 and 1.
+ * @property {string[]} differences - Dotted paths of the components that differ or are present in only one anchor.
+ */
+export interface AnchorComparison {
+  /**
+   * Weighted share of the components that match, between 0 (nothing in common) and 1 (identical).
+   * Each component weighs its approximate entropy, so a matching GPU counts much more than matching device memory.
+   */
+  similarity: number;
+  /**
+   * Dotted paths of the components that differ or are present in only one anchor (e.g. `webgl.xExt`).
+   */
+  differences: string[];
+}
+
+/**
+ * Compares two anchors component by component, for fuzzy visitor matching.
+ * 
+ * An exact visitorId match requires every anchor component to be identical, so a single drifting
+ * component (e.g. the WebGL extension list after a browser update) produces a new visitorId.
+ * This function tells how much two anchors have in common, so that a backend can link visitors
+ * whose anchors differ by one or two components.
+ * 
+ * Components missing from both anchors are ignored. Both anchors must be computed with the same
+ * anchor scheme version.
+ * 
+ * @param {AnchorPayload} a - The first anchor payload.
+ * @param {AnchorPayload} b - The second anchor payload.
+ * @returns {AnchorComparison} The weighted similarity and the differing components.
+ * 
+ * @example
+ * ```typescript
+ * const { similarity, differences } = compareAnchors(storedAnchor, result.anchor);
+ * if (similarity > 0.9) {
+ *   console.log('Same visitor, drifted components:', differences); // ['webgl.xExt']
+ * }
+ * ```
+ * 
+ * @public
+ */
+export function compareAnchors(a: AnchorPayload, b: AnchorPayload): AnchorComparison {
+  const paths = [...new Set([...listAnchorComponents(a), ...listAnchorComponents(b)])].sort();
+  const differences: string[] = [];
+  let total = 0;
+  let matching = 0;
+
+  for (const path of paths) {
+    const weight = getComponentWeight(path);
+    total += weight;
+    if (canonicalize(getAnchorComponent(a, path)) === canonicalize(getAnchorComponent(b, path))) {
+      matching += weight;
+    } else {
+      differences.push(path);
+    }
+  }
+
+  return {
+    similarity: total ? Math.round((matching / total) * 1000) / 1000 : 1,
+    differences,
+  };
+}
+
+/**
+ * Format of the visitorId.
+ * 
+ * - `legacy`: the original 64-bit identifier, 16 hexadecimal characters.
+ * - `hex`: 128-bit identifier, 32 hexadecimal characters.
+ * - `base62`: 128-bit identifier, 22 alphanumeric characters.
+ * - `base32`: 128-bit identifier, 26 lowercase base32 characters.
+ * - `uuid`: 128-bit identifier formatted as a version 8 UUID (122 bits of the hash are kept).
+ * 
+ * @typedef {string} VisitorIdFormat
+ */
+export type VisitorIdFormat = 'legacy' | DigestEncoding;
+
+/**
+ * Options for computing the visitorId.
+ * 
+ * @interface VisitorIdOptions
+ * @property {AnchorVersion | readonly AnchorVersion[]} [anchorVersion] - The anchor scheme version(s).
+ * @property {VisitorIdFormat} [idFormat] - Format of the visitorId. Defaults to `legacy`.
+ * @property {string} [siteKey] - Secret key that makes the visitorId and the component hashes specific to a site.
+ */
+export interface VisitorIdOptions {
+  /**
+   * The anchor scheme version, or a list of versions to compute the visitorId under several
+   * schemes at once (e.g. to migrate stored IDs). Defaults to `latestAnchorVersion`.
+   */
+  anchorVersion?: AnchorVersion | readonly AnchorVersion[];
+  /**
+   * Format of the visitorId. The `legacy` format (the default) is a 64-bit hash, which has a
+   * noticeable collision risk at high traffic; the other formats are 128-bit hashes.
+   */
+  idFormat?: VisitorIdFormat;
+  /**
+   * Secret key that makes the visitorId and the component hashes specific to a site: they are derived
+   * with HMAC-SHA-256 keyed with it, so the same device gets unrelated IDs on sites using different keys.
+   * Changing the key changes every visitorId. The anchor itself isn't keyed, so it mustn't be shared across sites.
+   */
+  siteKey?: string;
 }
 
 /**
  * Computes a deterministic visitor identifier from browser signals by:
  *  - deriving the anchor payload
  *  - canonicalizing and hashing the anchor
- *  - truncating the hash to a compact, URL‑safe identifier
+ *  - encoding the hash as a compact, URL‑safe identifier
+ * 
+ * By default, the resulting visitor ID is the legacy 64-bit hash (16 hexadecimal characters).
+ * The `idFormat` option selects a 128-bit hash with a hex, base62, base32 or UUID encoding,
+ * which makes collisions between devices unlikely even at high traffic. The result also holds a stable hash
+ * of every anchor component and a locality-sensitive digest of the whole anchor, which
+ * allow partial matching without the raw signals.
+ * 
+ * When a list of anchor versions is given, the visitorId is computed under each of the
+ * schemes, which allows linking IDs stored by an older library version to the current ones.
  * 
- * The resulting visitor ID is a 22-character string that represents the unique
- * fingerprint of the device/browser combination.
+ * With a `siteKey`, the hashes are keyed (HMAC-SHA-256) and computed synchronously in pure JS;
+ * `computeKeyedVisitorId` computes the same visitorId with Web Crypto, which the agent uses where available.
  * 
  * @param {Partial<BrowserSignals>} signals - The browser signals to process.
- * @returns {{ anchor: AnchorPayload; visitorId: string }} An object containing both the anchor payload and the computed visitor ID.
+ * @param {VisitorIdOptions} [options] - The anchor scheme version(s), the visitorId format and the site key.
+ * @returns {VisitorIdResult | VisitorIdResult[]} The anchor payload, the visitor ID, the anchor version and
+ *   the component hashes; one per requested version when a list of versions is given.
  * 
  * @example
  * ```typescript
  * const signals = await computeBrowserSignals();
  * const { anchor, visitorId } = computeVisitorId(signals);
- * console.log('Visitor ID:', visitorId); // e.g., 'a1b2c3d4e5f6g7h8i9j0k1'
+ * console.log('Visitor ID:', visitorId); // e.g., 'a1b2c3d4e5f6a7b8'
+ * 
+ * // 128-bit visitorId
+ * const { visitorId: uuid } = computeVisitorId(signals, { idFormat: 'uuid' });
+ * 
+ * // Per-site visitorId
+ * const { visitorId: siteId } = computeVisitorId(signals, { siteKey: 'shop.example' });
+ * 
+ * // Compute the visitorId under every available scheme
+ * for (const { anchorVersion, visitorId } of computeVisitorId(signals, { anchorVersion: anchorVersions })) {
+ *   console.log(anchorVersion, visitorId);
+ * }
  * ```
  * 
  * @public
  */
-export function computeVisitorId(signals: Partial<BrowserSignals>): { anchor: AnchorPayload; visitorId: string } {
-  const anchor = computeAnchor(signals);
-  const anchorHash = stableHash(canonicalize(anchor));
-  // 22 chars roughly mirrors the backend truncation and keeps IDs short but stable.
-  const visitorId = anchorHash.slice(0, 22);
-  return { anchor, visitorId };
+export function computeVisitorId(
+  signals: Partial<BrowserSignals>,
+  options?: VisitorIdOptions & { anchorVersion?: AnchorVersion },
+): VisitorIdResult;
+export function computeVisitorId(
+  signals: Partial<BrowserSignals>,
+  options: VisitorIdOptions & { anchorVersion: readonly AnchorVersion[] },
+): VisitorIdResult[];
+export function computeVisitorId(
+  signals: Partial<BrowserSignals>,
+  options: VisitorIdOptions = {},
+): VisitorIdResult | VisitorIdResult[] {
+  const { anchorVersion = latestAnchorVersion, idFormat = 'legacy', siteKey } = options;
+  if (typeof anchorVersion !== 'number') {
+    return anchorVersion.map((version) => computeSchemeVisitorId(signals, version, idFormat, siteKey));
+  }
+  return computeSchemeVisitorId(signals, anchorVersion, idFormat, siteKey);
 }
 
+/**
+ * Computes the keyed visitorId of an anchor with Web Crypto, falling back to the pure-JS
+ * implementation where Web Crypto is unavailable. The result is the same as the `visitorId`
+ * of `computeVisitorId(signals, { siteKey, idFormat })`.
+ * 
+ * @param {AnchorPayload} anchor - The anchor payload, as returned by `computeAnchor`.
+ * @param {string} siteKey - Secret key of the site.
+ * @param {VisitorIdFormat} [idFormat] - Format of the visitorId. Defaults to `legacy`.
+ * @returns {Promise<string>} The keyed visitorId.
+ * 
+ * @example
+ * ```typescript
+ * const anchor = computeAnchor(signals);
+ * const visitorId = await computeKeyedVisitorId(anchor, 'shop.example', 'uuid');
+ * ```
+ * 
+ * @public
+ */
+export async function computeKeyedVisitorId(
+  anchor: AnchorPayload,
+  siteKey: string,
+  idFormat: VisitorIdFormat = 'legacy',
+): Promise<string> {
+  return formatKeyedDigest(await hmacSha256Async(siteKey, canonicalize(anchor)), idFormat);
+}
 
+/**
+ * Truncates and encodes a 256-bit HMAC digest into a visitorId of the given format,
+ * keeping the lengths of the unkeyed visitorIds.
+ * 
+ * @internal
+ * @param {string} digest - The hexadecimal HMAC-SHA-256 digest.
+ * @param {VisitorIdFormat} idFormat - Format of the visitorId.
+ * @returns {string} The visitorId.
+ */
+function formatKeyedDigest(digest: string, idFormat: VisitorIdFormat): string {
+  return idFormat === 'legacy' ? digest.slice(0, 16) : encodeDigest(digest.slice(0, 32), idFormat);
+}
+
+/**
+ * Hashes the anchor payload into a visitorId of the given format.
+ * 
+ * @internal
+ * @param {AnchorPayload} anchor - The anchor payload.
+ * @param {VisitorIdFormat} idFormat - Format of the visitorId.
+ * @param {string} [siteKey] - Secret key of the site, for a keyed visitorId.
+ * @returns {string} The visitorId.
+ */
+function hashAnchor(anchor: AnchorPayload, idFormat: VisitorIdFormat, siteKey?: string): string {
+  if (siteKey !== undefined) {
+    return formatKeyedDigest(hmacSha256(siteKey, canonicalize(anchor)), idFormat);
+  }
+  if (idFormat === 'legacy') {
+    // 22 chars roughly mirrors the backend truncation; `stableHash` only emits 16 of them.
+    return stableHash(canonicalize(anchor)).slice(0, 22);
+  }
+  return encodeDigest(stableHash128(canonicalize(anchor)), idFormat);
+}
+
+/**
+ * Computes the visitorId under a single anchor scheme.
+ * 
+ * @internal
+ * @param {Partial<BrowserSignals>} signals - The browser signals to process.
+ * @param {AnchorVersion} anchorVersion - The anchor scheme version.
+ * @param {VisitorIdFormat} idFormat - Format of the visitorId.
+ * @param {string} [siteKey] - Secret key of the site, for keyed hashes.
+ * @returns {VisitorIdResult} The anchor payload, the visitor ID, the anchor version and the component hashes.
+ */
+function computeSchemeVisitorId(
+  signals: Partial<BrowserSignals>,
+  anchorVersion: AnchorVersion,
+  idFormat: VisitorIdFormat,
+  siteKey?: string,
+): VisitorIdResult {
+  const result = computeSchemeAnchor(signals, anchorVersion, siteKey);
+  return { ...result, visitorId: hashAnchor(result.anchor, idFormat, siteKey) };
+}
+
+/**
+ * Computes the anchor under a single anchor scheme, with its component hashes and similarity digest.
+ * 
+ * @internal
+ * @param {Partial<BrowserSignals>} signals - The browser signals to process.
+ * @param {AnchorVersion} anchorVersion - The anchor scheme version.
+ * @param {string} [siteKey] - Secret key of the site, for keyed hashes.
+ * @returns {Omit<VisitorIdResult, 'visitorId'>} The visitorId result, without the visitorId.
+ */
+function computeSchemeAnchor(
+  signals: Partial<BrowserSignals>,
+  anchorVersion: AnchorVersion,
+  siteKey?: string,
+): Omit<VisitorIdResult, 'visitorId'> {
+  const anchor = computeAnchor(signals, { anchorVersion });
+  const componentHashes = hashAnchorComponents(anchor, siteKey);
+  const similarityHash = simHash(
+    Object.keys(componentHashes).map((path) => [`${path}=${componentHashes[path]}`, getComponentWeight(path)] as const),
+  );
+  return { anchor, anchorVersion, componentHashes, similarityHash };
+}
+
+/**
+ * Computes the visitorId under a single anchor scheme like `computeVisitorId`, except that a keyed
+ * visitorId is computed with Web Crypto (see `computeKeyedVisitorId`), without blocking the main thread.
+ * The pure-JS implementation is only used where Web Crypto is unavailable.
+ * 
+ * @internal
+ * @param {Partial<BrowserSignals>} signals - The browser signals to process.
+ * @param {VisitorIdOptions & { anchorVersion?: AnchorVersion }} [options] - The anchor scheme version, the visitorId
+ *   format and the site key.
+ * @returns {Promise<VisitorIdResult>} The anchor payload, the visitor ID, the anchor version and the component hashes.
+ */
+export async function computeVisitorIdAsync(
+  signals: Partial<BrowserSignals>,
+  options: VisitorIdOptions & { anchorVersion?: AnchorVersion } = {},
+): Promise<VisitorIdResult> {
+  const { anchorVersion = latestAnchorVersion, idFormat = 'legacy', siteKey } = options;
+  if (siteKey === undefined) {
+    return computeSchemeVisitorId(signals, anchorVersion, idFormat);
+  }
+  const result = computeSchemeAnchor(signals, anchorVersion, siteKey);
+  return { ...result, visitorId: await computeKeyedVisitorId(result.anchor, siteKey, idFormat) };
+}
@@ -2,8 +2,8 @@
  * @fileoverview Browser signal collection orchestration
  * 
  * This module coordinates the collection of various browser and device signals
- * from multiple sources (WebGL, WebGPU, audio, math, EME, performance timing, etc.)
- * and aggregates them into a unified BrowserSignals object.
+ * from the registered sources (WebGL, WebGPU, audio, math, EME, performance timing,
+ * custom sources, etc.) and aggregates them into a unified BrowserSignals object.
  * 
  * All signal collection is performed locally in the browser without making any
  * network requests.
@@ -11,97 +11,353 @@
  * @module computeBrowserSignals
  */
 
-import { BrowserSignals, PerformanceTimingInfo } from './types';
-import { getWebGlBasics, getWebGlExtensions } from './sources/webgl';
-import getWebGpuInfo from './sources/webgpu';
-import getAudioFingerprint from './sources/audio';
-import getMathFingerprint from './sources/math';
-import getEmeInfo from './sources/eme';
+import type { BrowserSignals, Component, Components, ComponentStatus } from './types';
+import {
+  BuiltinSourceName,
+  createSourceRegistry,
+  getErrorStatus,
+  isBuiltinSourceName,
+  RegisteredSource,
+  SourceRegistry,
+} from './registry';
+import { releaseWebGLContext, WebGlCache } from './sources/webgl';
+import { mapWithBreaks, requestIdleCallbackIfAvailable, waitForAbort } from './utils/async';
+import { errorToObject } from './utils/misc';
 
 /**
- * Safely attempts to access the global Navigator object.
+ * How long to wait for the browser to become idle before starting the collection, in milliseconds,
+ * when `requestIdleCallback` is unavailable. Twice this value is the maximum wait otherwise.
+ * @internal
+ */
+const idleWaitFallback = 50;
+
+/**
+ * The browser signals together with the collection envelope of every source.
+ * 
+ * @interface CollectedSignals
+ * @property {BrowserSignals} signals - The collected browser signals.
+ * @property {Components} components - Collection envelopes keyed by source name.
+ */
+export interface CollectedSignals {
+  signals: BrowserSignals;
+  components: Components;
+}
+
+/**
+ * Options limiting how long the signal collection may take.
+ * 
+ * @interface CollectOptions
+ * @property {number} [timeout] - Overall time budget of the collection, in milliseconds.
+ * @property {AbortSignal} [signal] - Aborts the collection.
+ */
+export interface CollectOptions {
+  /**
+   * Overall time budget of the collection, in milliseconds. Sources that don't complete
+   * in time get the `timeout` status and no value.
+   */
+  timeout?: number;
+  /**
+   * Aborts the collection. Sources that haven't completed get the `aborted` status and no value.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A running signal collection.
+ * 
+ * @interface SignalsCollection
+ */
+export interface SignalsCollection {
+  /**
+   * Resolves when every source has completed, timed out or been aborted. Never rejects.
+   */
+  complete: Promise<CollectedSignals>;
+  /**
+   * Builds the signals out of the sources completed so far. The sources still running
+   * are reported with the given status and no value.
+   * 
+   * @param {InterruptionStatus} pendingStatus - The status of the sources still running.
+   * @returns {CollectedSignals} The partial signals and components.
+   */
+  snapshot(pendingStatus: InterruptionStatus): CollectedSignals;
+}
+
+/**
+ * The statuses of a source that was interrupted before it completed.
+ * 
+ * @typedef {string} InterruptionStatus
+ */
+export type InterruptionStatus = Extract<ComponentStatus, 'timeout' | 'aborted'>;
+
+/**
+ * An interruptible piece of work: its abort signal fires, and its status tells why, once it's interrupted.
  * 
  * @internal
- * @returns {Navigator | undefined} The Navigator object, or undefined if unavailable.
  */
-function getNavigatorSafe(): Navigator | undefined {
-  try {
-    return typeof navigator !== 'undefined' ? navigator : undefined;
-  } catch {
-    return undefined;
+interface Interruptible {
+  signal: AbortSignal;
+  getStatus(): InterruptionStatus | undefined;
+  /** Clears the timer and the listeners, once the work is over. */
+  dispose(): void;
+}
+
+/**
+ * Starts watching a time budget and an abort signal. The first of them to fire interrupts the work.
+ * 
+ * @internal
+ * @param {CollectOptions} options - The time budget and abort signal. Neither is required.
+ * @returns {Interruptible} The interruption state.
+ */
+function watchInterruption({ timeout, signal }: CollectOptions): Interruptible {
+  const controller = new AbortController();
+  let status: InterruptionStatus | undefined;
+  const interrupt = (newStatus: InterruptionStatus) => {
+    if (!status) {
+      status = newStatus;
+      controller.abort();
+    }
+  };
+  const onAbort = () => interrupt('aborted');
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort);
   }
+  const timeoutId = timeout === undefined ? undefined : setTimeout(interrupt, timeout, 'timeout');
+
+  return {
+    signal: controller.signal,
+    getStatus: () => status,
+    dispose() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
 }
 
 /**
- * Safely attempts to access the global Window object.
+ * Runs a single source and wraps the outcome in a component envelope.
+ * 
+ * The source is raced against its own time budget and the collection-wide interruption, either of
+ * which aborts the signal the source gets in its context. A source is not started at all when the
+ * collection is already interrupted.
  * 
  * @internal
- * @returns {Window | undefined} The Window object, or undefined if unavailable.
+ * @param {RegisteredSource} source - The source to run.
+ * @param {WebGlCache} cache - The WebGL context cache shared by the sources.
+ * @param {Interruptible} collection - The interruption state of the whole collection.
+ * @param {Promise<unknown>[]} runningCollectors - Receives the collector promise, which may outlive the component
+ *   when the source is interrupted.
+ * @returns {Promise<Component>} The component envelope. Never rejects.
  */
-function getWindowSafe(): Window | undefined {
+async function collectComponent(
+  { collector, timeout }: RegisteredSource,
+  cache: WebGlCache,
+  collection: Interruptible,
+  runningCollectors: Promise<unknown>[],
+): Promise<Component> {
+  const startTime = Date.now();
+  const interruptedStatus = collection.getStatus();
+  if (interruptedStatus) {
+    return { duration: 0, status: interruptedStatus };
+  }
+
+  const source = watchInterruption({ timeout, signal: collection.signal });
+  // The collection-wide interruption reaches the source as an abort, so its own status tells less
+  const getInterruptedStatus = () => collection.getStatus() ?? source.getStatus() ?? 'timeout';
+
   try {
-    return typeof window !== 'undefined' ? window : undefined;
-  } catch {
-    return undefined;
+    const collectorPromise = Promise.resolve(collector({ cache, signal: source.signal }));
+    runningCollectors.push(collectorPromise.catch(() => undefined));
+    const outcome = await Promise.race([
+      collectorPromise.then((value) => ({ value })),
+      waitForAbort(source.signal).then(() => ({ interrupted: true as const })),
+    ]);
+    const duration = Date.now() - startTime;
+    // A collector that stops on abort may settle before the interruption is observed
+    if ('interrupted' in outcome || source.signal.aborted) {
+      return { duration, status: getInterruptedStatus() };
+    }
+    return { value: outcome.value, duration, status: 'ok' };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    if (source.signal.aborted) {
+      return { duration, status: getInterruptedStatus() };
+    }
+    const status = getErrorStatus(error);
+    if (status) {
+      return { duration, status };
+    }
+    return {
+      duration,
+      status: 'error',
+      error: error instanceof Error ? errorToObject(error) : { message: String(error) },
+    };
+  } finally {
+    source.dispose();
   }
 }
 
 /**
- * Measures the precision and baseline characteristics of the browser's
- * performance.now() implementation.
+ * Builds the browser signals out of the source components.
  * 
- * Different browsers and configurations have different timing precision levels,
- * which can serve as a fingerprinting signal. This function runs a large number
- * of iterations to detect the minimum timing resolution.
+ * Built-in sources fill the `BrowserSignals` field with the same name. Custom sources
+ * are stored in `BrowserSignals.custom`. The names of the custom and optional built-in sources
+ * included in the anchor are listed in `BrowserSignals.anchorSources`. Failed sources get an
+ * `undefined` value.
  * 
  * @internal
- * @returns {PerformanceTimingInfo | undefined} Timing precision data, or undefined if unavailable.
+ * @param {ReadonlyArray<RegisteredSource>} sources - The sources that were run.
+ * @param {Components} components - Their components.
+ * @returns {BrowserSignals} The browser signals.
  */
-function getPerformanceTiming(): PerformanceTimingInfo | undefined {
-  try {
-    const w = getWindowSafe() as any;
-    if (!w?.performance?.now) return undefined;
-
-    let min = 1;
-    let max = 1;
-    let prev = w.performance.now();
-    let curr = prev;
-
-    for (let i = 0; i < 50000; i++) {
-      prev = curr;
-      curr = w.performance.now();
-      if (prev < curr) {
-        const diff = curr - prev;
-        if (diff > min) {
-          if (diff < max) max = diff;
-        } else if (diff < min) {
-          max = min;
-          min = diff;
-        }
-      }
+function makeSignals(sources: ReadonlyArray<RegisteredSource>, components: Components): BrowserSignals {
+  const signals: BrowserSignals = { userAgent: '' };
+  const builtinSignals = signals as unknown as Record<BuiltinSourceName, unknown>;
+
+  for (const { name, includeInAnchor } of sources) {
+    const { value } = components[name];
+
+    if (isBuiltinSourceName(name)) {
+      builtinSignals[name] = value;
+    } else {
+      signals.custom = { ...signals.custom, [name]: value };
     }
 
-    return { precision: min, baseline: max };
-  } catch {
-    return undefined;
+    if (includeInAnchor) {
+      signals.anchorSources = [...(signals.anchorSources ?? []), name];
+    }
   }
+
+  return signals;
+}
+
+/**
+ * Starts running every enabled source of the registry. The returned collection reports both the
+ * browser signals and how each source was collected (value, duration, status and serialized
+ * error), either once all the sources complete or, partially, at any moment.
+ * 
+ * The collection is designed not to cause jank:
+ * - it starts when the browser is idle (or shortly after, if it never becomes idle);
+ * - the sources are started in order, periodically releasing the event loop between synchronous sources;
+ * - asynchronous sources (WebGPU, EME, audio, etc.) run concurrently;
+ * - all the sources share a single WebGL context, which is released once every collector has settled.
+ * 
+ * Every source gets an abort signal in its context, which fires when the source or the whole collection
+ * times out or is aborted, so that the source can stop its work.
+ * 
+ * @param {SourceRegistry} [registry] - The sources to run. Defaults to the built-in sources.
+ * @param {CollectOptions} [options] - The overall time budget and abort signal.
+ * @returns {SignalsCollection} The running collection.
+ * 
+ * @example
+ * ```typescript
+ * const collection = startBrowserSignalsCollection(createSourceRegistry(), { timeout: 1000 });
+ * const { signals, components } = await collection.complete;
+ * ```
+ * 
+ * @public
+ */
+export function startBrowserSignalsCollection(
+  registry: SourceRegistry = createSourceRegistry(),
+  options: CollectOptions = {},
+): SignalsCollection {
+  const sources = registry.getSources().filter(({ enabled }) => enabled);
+  const cache: WebGlCache = {};
+  const startTime = Date.now();
+  const components: Components = {};
+  const collection = watchInterruption(options);
+  const runningCollectors: Promise<unknown>[] = [];
+
+  const snapshot = (pendingStatus: InterruptionStatus): CollectedSignals => {
+    const snapshotComponents: Components = {};
+    for (const { name } of sources) {
+      snapshotComponents[name] = components[name] ?? { duration: Date.now() - startTime, status: pendingStatus };
+    }
+    return { signals: makeSignals(sources, snapshotComponents), components: snapshotComponents };
+  };
+
+  const complete = (async () => {
+    await requestIdleCallbackIfAvailable(idleWaitFallback, idleWaitFallback * 2);
+
+    try {
+      // Synchronous sources run inside the callback, so the breaks keep the main thread responsive
+      const componentPromises = await mapWithBreaks(sources, (source) =>
+        collectComponent(source, cache, collection, runningCollectors).then(
+          (component) => (components[source.name] = component),
+        ),
+      );
+      await Promise.all(componentPromises);
+      // Every source has a component by now, so the pending status is never used
+      return snapshot('timeout');
+    } finally {
+      collection.dispose();
+      // Interrupted collectors may still be using the WebGL context
+      Promise.all(runningCollectors).then(() => releaseWebGLContext(cache));
+    }
+  })();
+
+  return { complete, snapshot };
 }
 
 /**
- * Collects the minimal set of browser signals required to build the anchor
- * used for the client-side visitorId. All work is performed locally in the
- * browser; no network calls are made.
+ * Runs every enabled source of the registry and reports both the browser signals and how
+ * each source was collected (value, duration, status and serialized error).
+ * See `startBrowserSignalsCollection` for the details.
  * 
- * This function coordinates the collection of signals from multiple sources:
+ * @param {SourceRegistry} [registry] - The sources to run. Defaults to the built-in sources.
+ * @param {CollectOptions} [options] - The overall time budget and abort signal.
+ * @returns {Promise<CollectedSignals>} The signals and the components.
+ * 
+ * @example
+ * ```typescript
+ * const { signals, components } = await collectBrowserSignals();
+ * if (components.webgl.status !== 'ok') {
+ *   console.log('WebGL is unavailable:', components.webgl.status);
+ * }
+ * ```
+ * 
+ * @public
+ */
+export function collectBrowserSignals(
+  registry: SourceRegistry = createSourceRegistry(),
+  options: CollectOptions = {},
+): Promise<CollectedSignals> {
+  return startBrowserSignalsCollection(registry, options).complete;
+}
+
+/**
+ * Collects the browser signals required to build the anchor used for the
+ * client-side visitorId. All work is performed locally in the browser; no
+ * network calls are made.
+ * 
+ * This function runs every enabled source of the registry. By default these are:
  * - User-Agent, hardware concurrency, device memory from Navigator
+ * - Notification permission states (used by the bot detection)
  * - WebGL basics (version, vendor, renderer)
  * - WebGL extensions and parameters
- * - WebGPU capability information
- * - Audio fingerprint (or a lazy function to compute it)
- * - Math fingerprint based on floating-point operations
+ * - WebGPU capability information (adapter info, features, limits, preferred format)
  * - EME (Encrypted Media Extensions) support
+ * - Math fingerprint based on floating-point operations
  * - Performance timing precision characteristics
+ * - Audio fingerprint (resolved with a bounded timeout)
+ * - Audio output device properties (optional anchor component)
+ * 
+ * The costly optional built-in sources only run once enabled (see `optionalBuiltinSources`):
+ * - WebGL2 extensions and parameters
+ * - WebGPU compute fingerprint
+ * - Media codec and decoding capabilities
+ * - Audio graph variants fingerprint
+ * - Canvas 2D rendering fingerprint
+ * - Installed fonts
+ * - Speech synthesis voices
+ * - WebGL rendering fingerprint
+ * 
+ * Use `collectBrowserSignals` to also get the per-source timing, status and errors.
  * 
+ * @param {SourceRegistry} [registry] - The sources to run. Defaults to the built-in sources.
+ * @param {CollectOptions} [options] - The overall time budget and abort signal.
  * @returns {Promise<BrowserSignals>} A promise that resolves to the collected browser signals.
  * 
  * @example
@@ -113,50 +369,9 @@ function getPerformanceTiming(): PerformanceTimingInfo | undefined {
  * 
  * @public
  */
-export async function computeBrowserSignals(): Promise<BrowserSignals> {
-  const nav = getNavigatorSafe() as any;
-  const basics = getWebGlBasics({ cache: {} });
-  const extensions = getWebGlExtensions({ cache: {} });
-  const webgpu = await getWebGpuInfo();
-  const eme = await getEmeInfo();
-  const mathFingerprint = getMathFingerprint();
-  const audioFingerprint = getAudioFingerprint();
-  const performanceTiming = getPerformanceTiming();
-
-  let webgl: BrowserSignals['webgl'] = undefined;
-  let webgExtensions: BrowserSignals['webgExtensions'] = undefined;
-
-  if (typeof basics !== 'number') {
-    webgl = {
-      version: basics.version,
-      vendor: basics.vendor,
-      renderer: basics.renderer,
-      vendorUnmasked: basics.vendorUnmasked,
-      rendererUnmasked: basics.rendererUnmasked,
-      shadingLanguageVersion: basics.shadingLanguageVersion,
-      extensions: typeof extensions !== 'number' ? extensions.extensions ?? undefined : undefined,
-    };
-  }
-
-  if (typeof extensions !== 'number') {
-    webgExtensions = extensions;
-  }
-
-  const signals: BrowserSignals = {
-    userAgent: nav?.userAgent || '',
-    hardwareConcurrency: typeof nav?.hardwareConcurrency === 'number' ? nav.hardwareConcurrency : undefined,
-    deviceMemory: typeof nav?.deviceMemory === 'number' ? nav.deviceMemory : undefined,
-    webgl,
-    webgExtensions,
-    audioFingerprint,
-    mathFingerprint,
-    webgpu,
-    eme,
-    performanceTiming,
-  };
-
-  return signals;
+export async function computeBrowserSignals(
+  registry: SourceRegistry = createSourceRegistry(),
+  options: CollectOptions = {},
+): Promise<BrowserSignals> {
+  return (await collectBrowserSignals(registry, options)).signals;
 }
-
-
-
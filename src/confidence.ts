@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Confidence estimation for the anchor-based visitorId
+ *
+ * This module estimates how distinctive a visitorId is, based on which anchor components
+ * were collected and how much identifying information each of them usually carries.
+ * A device without WebGL and audio produces an anchor made of a few low-entropy values
+ * (CPU cores, memory, math quirks) that is shared by huge populations, so its visitorId
+ * deserves much less trust than one built from the full set of components. The same goes for
+ * components that a privacy protection (Brave, Firefox `resistFingerprinting`, etc.) spoofs or randomizes.
+ *
+ * @module confidence
+ */
+
+import {
+  AnchorComponentName,
+  anchorComponentEntropy,
+  anchorComponentVersions,
+  AnchorPayload,
+  AnchorVersion,
+  getAnchorComponent,
+  latestAnchorVersion,
+} from './anchor';
+import type { BrowserSignals } from './types';
+import { PrivacyResult, privacyProtectionLabels } from './detectors/privacy';
+import { optionalBuiltinSources } from './registry';
+
+/**
+ * How much the visitorId can be trusted to identify a single device.
+ *
+ * @interface Confidence
+ * @property {number} score - Value between 0 (no identifying information) and 1 (all the anchor components are present).
+ * @property {string[]} reasons - Human-readable explanations of what lowered the score.
+ *
+ * @example
+ * ```typescript
+ * const confidence: Confidence = {
+ *   score: 0.41,
+ *   reasons: ['WebGL is unavailable', 'Audio fingerprint is unavailable (timeout)'],
+ * };
+ * ```
+ */
+export interface Confidence {
+  /**
+   * Value between 0 (no identifying information) and 1 (all the anchor components are present).
+   */
+  score: number;
+  /**
+   * Human-readable explanations of what lowered the score. Empty when the score is 1.
+   */
+  reasons: string[];
+}
+
+/**
+ * Human-readable names of the anchor components, used in the reasons.
+ *
+ * @internal
+ */
+const componentLabels: Record<AnchorComponentName, string> = {
+  gpu: 'GPU vendor and renderer',
+  'webgl.ext': 'WebGL extension list',
+  'webgl.xExt': 'WebGL extended extension list',
+  'webgl.params': 'WebGL parameters',
+  'webgl.shader': 'WebGL shader precisions',
+  hw: 'Hardware concurrency',
+  mem: 'Device memory',
+  audio: 'Audio fingerprint',
+  math: 'Math fingerprint',
+  webgpu: 'WebGPU support',
+  eme: 'EME support',
+  pt: 'Performance timing precision',
+  webgl2: 'WebGL2 parameters and extensions',
+  webgpuCompute: 'WebGPU compute fingerprint',
+  mediaCodecs: 'Media codec support',
+  audioDevice: 'Audio output device',
+  audioGraphs: 'Audio graph variants',
+  canvas: 'Canvas fingerprint',
+  fonts: 'Installed fonts',
+  voices: 'Speech synthesis voices',
+  webglRendering: 'WebGL rendering',
+};
+
+/**
+ * Estimates how distinctive the visitorId computed from the given anchor is.
+ *
+ * The score is the share of the total anchor entropy carried by the components that are present.
+ * The optional components (e.g. `canvas`) only count when their source is included in the anchor,
+ * and the components only count under the anchor scheme versions that have them.
+ * Components holding fallback values count for less:
+ * - a GPU without the unmasked vendor/renderer counts for half;
+ * - a WebGPU fallback (software) adapter counts for nothing;
+ * - a component made unreliable by a privacy protection counts for nothing.
+ *
+ * @param {AnchorPayload} anchor - The anchor payload, as returned by `computeAnchor`.
+ * @param {Partial<BrowserSignals>} [signals] - The signals the anchor was computed from, used to explain missing values.
+ * @param {PrivacyResult} [privacy] - The active privacy protection, as returned by `detectPrivacyProtection`.
+ * @param {AnchorVersion} [anchorVersion] - The anchor scheme version of the anchor. Defaults to `latestAnchorVersion`.
+ * @returns {Confidence} The confidence score and reasons.
+ *
+ * @example
+ * ```typescript
+ * const { anchor } = computeVisitorId(signals);
+ * const { score, reasons } = computeConfidence(anchor, signals);
+ * if (score < 0.5) {
+ *   console.log('Weak visitorId:', reasons);
+ * }
+ * ```
+ *
+ * @public
+ */
+export function computeConfidence(
+  anchor: AnchorPayload,
+  signals: Partial<BrowserSignals> = {},
+  privacy?: PrivacyResult,
+  anchorVersion: AnchorVersion = latestAnchorVersion,
+): Confidence {
+  const reasons: string[] = [];
+  let total = 0;
+  let present = 0;
+
+  for (const name of Object.keys(anchorComponentEntropy) as AnchorComponentName[]) {
+    if ((anchorComponentVersions[name] ?? 1) > anchorVersion) {
+      continue;
+    }
+    if ((optionalBuiltinSources as readonly string[]).includes(name) && !signals.anchorSources?.includes(name)) {
+      continue;
+    }
+
+    const entropy = anchorComponentEntropy[name];
+    total += entropy;
+
+    if (getAnchorComponent(anchor, name) === undefined) {
+      reasons.push(`${componentLabels[name]} is unavailable${getMissingReason(name, signals)}`);
+      continue;
+    }
+
+    if (privacy?.protection && privacy.unreliableComponents.includes(name)) {
+      reasons.push(`${componentLabels[name]} is unreliable (${privacyProtectionLabels[privacy.protection]})`);
+      continue;
+    }
+
+    const weight = getFallbackWeight(name, signals, reasons);
+    present += entropy * weight;
+  }
+
+  return {
+    score: Math.round((present / total) * 100) / 100,
+    reasons,
+  };
+}
+
+/**
+ * Explains why an anchor component is missing, when the signals tell it.
+ *
+ * @internal
+ * @param {AnchorComponentName} name - The missing component.
+ * @param {Partial<BrowserSignals>} signals - The collected signals.
+ * @returns {string} The explanation to append to the reason, or an empty string.
+ */
+function getMissingReason(name: AnchorComponentName, signals: Partial<BrowserSignals>): string {
+  if (name === 'audio' && typeof signals.audioFingerprint === 'object') {
+    return ` (${signals.audioFingerprint.special})`;
+  }
+  if (name === 'audioGraphs' && signals.audioGraphs && 'special' in signals.audioGraphs) {
+    return ` (${signals.audioGraphs.special})`;
+  }
+  if (name === 'gpu' && !signals.webgl) {
+    return ' (no WebGL)';
+  }
+  if (name === 'canvas' && signals.canvas) {
+    return ` (${signals.canvas.text === 'unsupported' ? 'unsupported' : 'unstable rendering'})`;
+  }
+  if (name === 'webgpuCompute' && signals.webgpuCompute === 'unsupported') {
+    return ' (unsupported)';
+  }
+  if (name === 'voices' && 'voices' in signals) {
+    return ' (no voices loaded)';
+  }
+  if (name === 'webglRendering' && signals.webglRendering) {
+    return ` (${signals.webglRendering === 'unsupported' ? 'unsupported' : 'unstable rendering'})`;
+  }
+  return '';
+}
+
+/**
+ * Tells how much of a present component's entropy counts, depending on whether it holds a fallback value.
+ *
+ * @internal
+ * @param {AnchorComponentName} name - The present component.
+ * @param {Partial<BrowserSignals>} signals - The collected signals.
+ * @param {string[]} reasons - Receives an explanation when the component holds a fallback value.
+ * @returns {number} A weight between 0 and 1.
+ */
+function getFallbackWeight(name: AnchorComponentName, signals: Partial<BrowserSignals>, reasons: string[]): number {
+  if (name === 'gpu' && signals.webgl && !signals.webgl.rendererUnmasked) {
+    reasons.push('GPU renderer is masked');
+    return 0.5;
+  }
+  if (name === 'webgpu' && signals.webgpu?.isFallbackAdapter) {
+    reasons.push(signals.webgpu.adapterUnavailable ? 'WebGPU has no adapter' : 'WebGPU uses a fallback adapter');
+    return 0;
+  }
+  return 1;
+}
@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Detection of headless browsers and automation frameworks
+ *
+ * Fraud tooling drives real browser engines through Puppeteer, Playwright or Selenium, often
+ * in headless mode. Each of them leaves traces: the `navigator.webdriver` flag, globals injected
+ * by the driver, the `HeadlessChrome` User-Agent, a software WebGL renderer, a missing plugin list,
+ * or browser APIs that contradict the engine the User-Agent claims. This module combines these
+ * indicators into a verdict.
+ *
+ * @module detectors/bot
+ */
+
+import type { NotificationPermissionsInfo } from '../sources/permissions';
+import type { BrowserSignals } from '../types';
+import { isAndroid, isChromium, isGecko, isWebKit } from '../utils/browser';
+
+/**
+ * A trace of automation found in the browser.
+ *
+ * - `webdriver`: `navigator.webdriver` is true (set by WebDriver, Puppeteer and Playwright).
+ * - `automationGlobals`: globals or document attributes injected by an automation framework.
+ * - `automationStackTrace`: the code runs in a script evaluated by an automation framework.
+ * - `headlessUserAgent`: the User-Agent names a headless browser.
+ * - `softwareRenderer`: WebGL renders with SwiftShader or llvmpipe, as headless browsers without a GPU do.
+ * - `noPlugins`: a desktop Chromium browser reports no plugins.
+ * - `noLanguages`: `navigator.languages` is empty.
+ * - `missingChromeObject`: a Chromium browser has no `window.chrome` object.
+ * - `permissionsMismatch`: notifications are denied, while the Permissions API reports them as not asked.
+ * - `engineMismatch`: the browser engine contradicts the User-Agent.
+ *
+ * @typedef {string} BotIndicator
+ */
+export type BotIndicator =
+  | 'webdriver'
+  | 'automationGlobals'
+  | 'automationStackTrace'
+  | 'headlessUserAgent'
+  | 'softwareRenderer'
+  | 'noPlugins'
+  | 'noLanguages'
+  | 'missingChromeObject'
+  | 'permissionsMismatch'
+  | 'engineMismatch';
+
+/**
+ * The automation tool behind a detected bot, when it can be told.
+ *
+ * @typedef {string} BotKind
+ */
+export type BotKind =
+  | 'selenium'
+  | 'puppeteer'
+  | 'playwright'
+  | 'phantomjs'
+  | 'nightmare'
+  | 'headlessChrome'
+  | 'unknown';
+
+/**
+ * The bot verdict.
+ *
+ * @interface BotResult
+ * @property {boolean} detected - Whether the browser is likely automated.
+ * @property {BotKind} [kind] - The automation tool, when a bot is detected.
+ * @property {BotIndicator[]} indicators - The triggered indicators, including when no bot is detected.
+ *
+ * @example
+ * ```typescript
+ * const bot: BotResult = {
+ *   detected: true,
+ *   kind: 'headlessChrome',
+ *   indicators: ['webdriver', 'headlessUserAgent', 'softwareRenderer'],
+ * };
+ * ```
+ */
+export interface BotResult {
+  /**
+   * Whether the browser is likely automated: a strong indicator was triggered, or several weak ones.
+   */
+  detected: boolean;
+  /**
+   * The automation tool, when a bot is detected.
+   */
+  kind?: BotKind;
+  /**
+   * The triggered indicators, including when no bot is detected.
+   */
+  indicators: BotIndicator[];
+}
+
+/**
+ * Indicators that are enough on their own to consider the browser automated.
+ * The other indicators also occur in real browsers (e.g. on machines without a GPU),
+ * so at least `minWeakIndicators` of them are required.
+ *
+ * @internal
+ */
+const strongIndicators: ReadonlySet<BotIndicator> = new Set<BotIndicator>([
+  'webdriver',
+  'automationGlobals',
+  'automationStackTrace',
+  'headlessUserAgent',
+]);
+
+const minWeakIndicators = 2;
+
+/**
+ * Globals and `document.documentElement` attributes injected by automation frameworks.
+ *
+ * @internal
+ */
+const automationGlobals: ReadonlyArray<readonly [BotKind, ReadonlyArray<string>]> = [
+  [
+    'selenium',
+    [
+      '_selenium',
+      'callSelenium',
+      '_Selenium_IDE_Recorder',
+      '__selenium_unwrapped',
+      '__selenium_evaluate',
+      '__webdriver_evaluate',
+      '__webdriver_script_fn',
+      '__webdriver_unwrapped',
+      '__driver_evaluate',
+      '__driver_unwrapped',
+      '__fxdriver_evaluate',
+      '__fxdriver_unwrapped',
+    ],
+  ],
+  ['playwright', ['__playwright__binding__', '__pwInitScripts']],
+  ['phantomjs', ['callPhantom', '_phantom']],
+  ['nightmare', ['__nightmare']],
+];
+
+const automationAttributes: ReadonlyArray<string> = ['webdriver', 'selenium', 'driver'];
+
+/**
+ * ChromeDriver stores its state in `window` and `document` properties starting with `cdc_` or `$cdc_`.
+ * @internal
+ */
+const chromeDriverPattern = /^\$?cdc_/;
+
+/**
+ * Tells whether the page is automated by Puppeteer, Playwright, Selenium, PhantomJS or a headless browser.
+ *
+ * @param {Partial<BrowserSignals>} signals - The collected signals; the User-Agent, the WebGL renderer and
+ *   the notification permissions are used.
+ * @returns {BotResult} The verdict and the triggered indicators.
+ *
+ * @example
+ * ```typescript
+ * const bot = detectBot(signals);
+ * if (bot.detected) {
+ *   console.log(`Automated by ${bot.kind}:`, bot.indicators);
+ * }
+ * ```
+ *
+ * @public
+ */
+export function detectBot(signals: Partial<BrowserSignals>): BotResult {
+  const indicators: BotIndicator[] = [];
+  let kind: BotKind | undefined;
+  const userAgent = signals.userAgent ?? '';
+  const n = navigator;
+
+  if (n.webdriver) {
+    indicators.push('webdriver');
+  }
+
+  const globalsKind = getAutomationGlobalsKind();
+  if (globalsKind) {
+    indicators.push('automationGlobals');
+    kind = globalsKind;
+  }
+
+  const stackTraceKind = getAutomationStackTraceKind();
+  if (stackTraceKind) {
+    indicators.push('automationStackTrace');
+    kind = kind ?? stackTraceKind;
+  }
+
+  if (/HeadlessChrome|PhantomJS/.test(userAgent)) {
+    indicators.push('headlessUserAgent');
+  }
+
+  const renderer = signals.webgl?.rendererUnmasked || signals.webgl?.renderer || '';
+  if (/SwiftShader|llvmpipe/i.test(renderer)) {
+    indicators.push('softwareRenderer');
+  }
+
+  const isItChromium = isChromium();
+  if (isItChromium && !isAndroid() && n.plugins?.length === 0) {
+    indicators.push('noPlugins');
+  }
+  if (n.languages?.length === 0) {
+    indicators.push('noLanguages');
+  }
+  if (isItChromium && !('chrome' in window)) {
+    indicators.push('missingChromeObject');
+  }
+  if (hasPermissionsMismatch(signals.notificationPermissions)) {
+    indicators.push('permissionsMismatch');
+  }
+  if (hasEngineMismatch(userAgent, isItChromium)) {
+    indicators.push('engineMismatch');
+  }
+
+  const weakCount = indicators.filter((indicator) => !strongIndicators.has(indicator)).length;
+  const detected = indicators.some((indicator) => strongIndicators.has(indicator)) || weakCount >= minWeakIndicators;
+  if (!detected) {
+    return { detected, indicators };
+  }
+
+  const isHeadlessChrome = /HeadlessChrome/.test(userAgent) || (isItChromium && indicators.includes('softwareRenderer'));
+  return { detected, kind: kind ?? (isHeadlessChrome ? 'headlessChrome' : 'unknown'), indicators };
+}
+
+/**
+ * Looks for the globals and document attributes injected by automation frameworks.
+ *
+ * @internal
+ * @returns {BotKind | undefined} The framework that injected them, or undefined if none is found.
+ */
+function getAutomationGlobalsKind(): BotKind | undefined {
+  const w = window as unknown as Record<string, unknown>;
+  const d = document as unknown as Record<string, unknown>;
+
+  for (const [kind, names] of automationGlobals) {
+    if (names.some((name) => name in w || name in d)) {
+      return kind;
+    }
+  }
+
+  const hasChromeDriverKey = (object: object) => Object.keys(object).some((key) => chromeDriverPattern.test(key));
+  if (hasChromeDriverKey(w) || hasChromeDriverKey(d)) {
+    return 'selenium';
+  }
+
+  const root = document.documentElement;
+  if (root && automationAttributes.some((attribute) => root.hasAttribute(attribute))) {
+    return 'selenium';
+  }
+
+  return undefined;
+}
+
+/**
+ * Looks for automation frameworks in the current stack trace. It shows up when the agent
+ * is called from a script evaluated by the framework (e.g. `page.evaluate()`).
+ *
+ * @internal
+ * @returns {BotKind | undefined} The framework, or undefined if none is found.
+ */
+function getAutomationStackTraceKind(): BotKind | undefined {
+  const stack = new Error().stack ?? '';
+  if (/pptr:|__puppeteer_evaluation_script__/.test(stack)) {
+    return 'puppeteer';
+  }
+  if (/__playwright_evaluation_script__/.test(stack)) {
+    return 'playwright';
+  }
+  return undefined;
+}
+
+/**
+ * Checks the notification permission inconsistency of headless Chrome: `Notification.permission`
+ * is `denied` while the Permissions API reports the permission as not asked yet.
+ *
+ * @internal
+ * @param {NotificationPermissionsInfo} [notificationPermissions] - The collected permission states.
+ * @returns {boolean} True if the permission states contradict each other.
+ */
+function hasPermissionsMismatch(notificationPermissions?: NotificationPermissionsInfo): boolean {
+  return notificationPermissions?.permission === 'denied' && notificationPermissions.state === 'prompt';
+}
+
+/**
+ * Checks whether the browser engine contradicts the User-Agent, as happens when a bot
+ * spoofs the User-Agent of a popular browser.
+ *
+ * @internal
+ * @param {string} userAgent - The User-Agent.
+ * @param {boolean} isItChromium - Whether the engine is Chromium.
+ * @returns {boolean} True if the engine contradicts the User-Agent.
+ */
+function hasEngineMismatch(userAgent: string, isItChromium: boolean): boolean {
+  // All the iOS browsers use WebKit, whatever the User-Agent says
+  if (/iPhone|iPad|iPod/.test(userAgent)) {
+    return !isWebKit();
+  }
+  if (/Chrome\/|Chromium\//.test(userAgent)) {
+    return !isItChromium;
+  }
+  if (/Firefox\//.test(userAgent)) {
+    return !isGecko();
+  }
+  if (/Safari\//.test(userAgent)) {
+    return !isWebKit();
+  }
+  return false;
+}
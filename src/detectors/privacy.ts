@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Detection of privacy browsers and anti-fingerprinting modes
+ *
+ * Several browsers defend against fingerprinting by spoofing or randomizing the values
+ * the sources collect: Brave "farbles" the audio output, the canvas readbacks, the font list and
+ * the CPU core count per site and session, Firefox `resistFingerprinting` (always on in Tor Browser) reports
+ * uniform values and blank canvas readbacks, and Safari Advanced Fingerprinting Protection adds
+ * noise to canvas and audio readbacks.
+ * This module tells which protection is active and which anchor components it makes unreliable,
+ * so that the confidence of the visitorId can be lowered accordingly.
+ *
+ * @module detectors/privacy
+ */
+
+import type { AnchorComponentName } from '../anchor';
+import type { BrowserSignals } from '../types';
+import { isGecko, isSafariWebKit, isWebKit, isWebKit616OrNewer } from '../utils/browser';
+import { countTruthy } from '../utils/data';
+
+/**
+ * A privacy protection that alters fingerprinting signals.
+ *
+ * - `brave`: Brave Shields fingerprinting protection.
+ * - `torBrowser`: Tor Browser.
+ * - `firefoxResistFingerprinting`: Firefox with `privacy.resistFingerprinting` enabled.
+ * - `safariAdvancedFingerprintingProtection`: Safari Advanced Fingerprinting Protection
+ *   (on by default in private browsing).
+ *
+ * @typedef {string} PrivacyProtection
+ */
+export type PrivacyProtection =
+  | 'brave'
+  | 'torBrowser'
+  | 'firefoxResistFingerprinting'
+  | 'safariAdvancedFingerprintingProtection';
+
+/**
+ * The outcome of the privacy protection detection.
+ *
+ * @interface PrivacyResult
+ * @property {boolean} detected - Whether a privacy protection is active.
+ * @property {PrivacyProtection} [protection] - The active protection.
+ * @property {AnchorComponentName[]} unreliableComponents - The anchor components the protection spoofs or randomizes.
+ *
+ * @example
+ * ```typescript
+ * const privacy: PrivacyResult = {
+ *   detected: true,
+ *   protection: 'brave',
+ *   unreliableComponents: ['hw', 'audio'],
+ * };
+ * ```
+ */
+export interface PrivacyResult {
+  /**
+   * Whether a privacy protection is active.
+   */
+  detected: boolean;
+  /**
+   * The active protection.
+   */
+  protection?: PrivacyProtection;
+  /**
+   * The anchor components the protection spoofs or randomizes. Their values don't identify the device:
+   * they either change between sessions or are shared by all the users of the protection.
+   */
+  unreliableComponents: AnchorComponentName[];
+}
+
+/**
+ * The anchor components `resistFingerprinting` makes unreliable: it reports the same values
+ * (and only the bundled fonts) for all the users.
+ *
+ * @internal
+ */
+const resistFingerprintingComponents: AnchorComponentName[] = [
+  'gpu',
+  'webgl.ext',
+  'webgl.xExt',
+  'webgl.params',
+  'webgl2',
+  'mediaCodecs',
+  'hw',
+  'pt',
+  'canvas',
+  'fonts',
+  'voices',
+  'webglRendering',
+];
+
+/**
+ * The anchor components each protection makes unreliable.
+ *
+ * @internal
+ */
+const unreliableComponentsByProtection: Record<PrivacyProtection, AnchorComponentName[]> = {
+  // Brave randomizes these per site and session
+  brave: ['hw', 'audio', 'audioGraphs', 'canvas', 'fonts', 'webglRendering'],
+  torBrowser: resistFingerprintingComponents,
+  firefoxResistFingerprinting: resistFingerprintingComponents,
+  safariAdvancedFingerprintingProtection: ['audio', 'audioGraphs', 'canvas', 'webglRendering'],
+};
+
+/**
+ * Human-readable names of the protections, used in the confidence reasons.
+ *
+ * @internal
+ */
+export const privacyProtectionLabels: Record<PrivacyProtection, string> = {
+  brave: 'Brave',
+  torBrowser: 'Tor Browser',
+  firefoxResistFingerprinting: 'Firefox resistFingerprinting',
+  safariAdvancedFingerprintingProtection: 'Safari Advanced Fingerprinting Protection',
+};
+
+/**
+ * The `performance.now()` resolution, in milliseconds, that `resistFingerprinting` clamps the clock to
+ * (16.67 ms in recent versions, 100 ms in older ones). Regular browsers are at least 10 times more precise.
+ *
+ * @internal
+ */
+const resistFingerprintingResolution = 16;
+
+/**
+ * Tells which privacy protection (Brave, Tor Browser, Firefox `resistFingerprinting`,
+ * Safari Advanced Fingerprinting Protection) is active, if any.
+ *
+ * @param {Partial<BrowserSignals>} signals - The collected signals; the CPU core count, the WebGL renderer
+ *   and the timer resolution are used.
+ * @returns {PrivacyResult} The active protection and the anchor components it makes unreliable.
+ *
+ * @example
+ * ```typescript
+ * const privacy = detectPrivacyProtection(signals);
+ * if (privacy.detected) {
+ *   console.log(`${privacy.protection} spoofs:`, privacy.unreliableComponents);
+ * }
+ * ```
+ *
+ * @public
+ */
+export function detectPrivacyProtection(signals: Partial<BrowserSignals>): PrivacyResult {
+  const protection = getPrivacyProtection(signals);
+  return {
+    detected: protection !== undefined,
+    protection,
+    unreliableComponents: protection ? unreliableComponentsByProtection[protection] : [],
+  };
+}
+
+/**
+ * Detects the active privacy protection.
+ *
+ * @internal
+ * @param {Partial<BrowserSignals>} signals - The collected signals.
+ * @returns {PrivacyProtection | undefined} The active protection, or undefined if none is detected.
+ */
+function getPrivacyProtection(signals: Partial<BrowserSignals>): PrivacyProtection | undefined {
+  if ('brave' in navigator) {
+    return 'brave';
+  }
+  if (isGecko() && isResistingFingerprinting(signals)) {
+    return isLetterboxed() ? 'torBrowser' : 'firefoxResistFingerprinting';
+  }
+  if (isWebKit() && isWebKit616OrNewer() && isSafariWebKit() && hasCanvasNoise()) {
+    return 'safariAdvancedFingerprintingProtection';
+  }
+  return undefined;
+}
+
+/**
+ * Checks the values Firefox reports under `resistFingerprinting`: 2 CPU cores, the UTC time zone,
+ * a masked WebGL renderer and a coarse timer. A single value can be genuine, so 3 of them are required.
+ *
+ * @internal
+ * @param {Partial<BrowserSignals>} signals - The collected signals.
+ * @returns {boolean} True if Firefox resists fingerprinting.
+ */
+function isResistingFingerprinting(signals: Partial<BrowserSignals>): boolean {
+  const { hardwareConcurrency, webgl, performanceTiming } = signals;
+
+  return (
+    countTruthy([
+      hardwareConcurrency === 2,
+      getTimeZone() === 'UTC',
+      webgl && !webgl.rendererUnmasked,
+      (performanceTiming?.resolution ?? 0) >= resistFingerprintingResolution,
+    ]) >= 3
+  );
+}
+
+/**
+ * Gets the time zone of the browser.
+ *
+ * @internal
+ * @returns {string | undefined} The IANA time zone name, or undefined if unavailable.
+ */
+function getTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether the viewport is letterboxed: Tor Browser rounds the viewport size down to
+ * multiples of 200×100 pixels by adding margins, which regular Firefox doesn't do by default.
+ *
+ * @internal
+ * @returns {boolean} True if the viewport size is a multiple of the letterboxing steps.
+ */
+function isLetterboxed(): boolean {
+  const { innerWidth, innerHeight } = window;
+  return innerWidth > 0 && innerWidth % 200 === 0 && innerHeight > 0 && innerHeight % 100 === 0;
+}
+
+/**
+ * Checks whether the browser adds noise to canvas readbacks: a uniformly filled canvas
+ * reads back with pixels of different colors.
+ *
+ * @internal
+ * @returns {boolean} True if noise is added to the canvas pixels.
+ */
+function hasCanvasNoise(): boolean {
+  const size = 8;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return false;
+  }
+
+  context.fillStyle = 'rgb(200, 100, 50)';
+  context.fillRect(0, 0, size, size);
+  const { data } = context.getImageData(0, 0, size, size);
+  for (let i = 4; i < data.length; i++) {
+    if (data[i] !== data[i % 4]) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Detection of tampered browser APIs
+ *
+ * Anti-fingerprinting and spoofing extensions change the values the sources collect by
+ * overriding the browser APIs they call: they replace `WebGLRenderingContext.prototype.getParameter`,
+ * wrap `OfflineAudioContext.prototype.startRendering` in a Proxy, redefine the `navigator.hardwareConcurrency`
+ * getter, etc. This module checks that the APIs the sources depend on are still the native ones.
+ *
+ * The checks are heuristics: a careful spoofer that also patches `Function.prototype.toString`
+ * and restores the original descriptors can go unnoticed.
+ *
+ * @module detectors/tampering
+ */
+
+import { isFunctionNative } from '../utils/misc';
+
+/**
+ * How an API was tampered with.
+ *
+ * - `overridden`: the function was replaced by a non-native one.
+ * - `proxied`: the native function was wrapped (in a Proxy or with `bind`).
+ * - `descriptorAltered`: the property was redefined with a descriptor a browser never produces,
+ *   or shadowed on the instance.
+ *
+ * @typedef {string} TamperingKind
+ */
+export type TamperingKind = 'overridden' | 'proxied' | 'descriptorAltered';
+
+/**
+ * A tampered API.
+ *
+ * @interface TamperingFinding
+ * @property {string} api - Path of the API, e.g. `WebGLRenderingContext.prototype.getParameter`.
+ * @property {TamperingKind} kind - How the API was tampered with.
+ */
+export interface TamperingFinding {
+  api: string;
+  kind: TamperingKind;
+}
+
+/**
+ * The outcome of the tampering detection.
+ *
+ * @interface TamperingResult
+ * @property {boolean} detected - Whether any of the checked APIs was tampered with.
+ * @property {TamperingFinding[]} findings - The tampered APIs.
+ *
+ * @example
+ * ```typescript
+ * const tampering: TamperingResult = {
+ *   detected: true,
+ *   findings: [{ api: 'WebGLRenderingContext.prototype.getParameter', kind: 'proxied' }],
+ * };
+ * ```
+ */
+export interface TamperingResult {
+  /**
+   * Whether any of the checked APIs was tampered with.
+   */
+  detected: boolean;
+  /**
+   * The tampered APIs. An API can appear several times with different kinds.
+   */
+  findings: TamperingFinding[];
+}
+
+/**
+ * The kinds of checked properties, which determine the descriptor a browser gives them:
+ * - `method`: a Web IDL operation (writable, enumerable and configurable);
+ * - `getter`: a read-only Web IDL attribute (an enumerable and configurable accessor);
+ * - `builtin`: a JavaScript built-in function (writable, configurable, non-enumerable).
+ *
+ * @internal
+ */
+type PropertyKind = 'method' | 'getter' | 'builtin';
+
+/**
+ * The APIs the sources depend on: the path of the owner object from the global object,
+ * the property name and its kind. APIs missing in the browser are skipped.
+ *
+ * @internal
+ */
+const checkedApis: ReadonlyArray<readonly [string, string, PropertyKind]> = [
+  ['Function.prototype', 'toString', 'builtin'],
+  ['WebGLRenderingContext.prototype', 'getParameter', 'method'],
+  ['WebGLRenderingContext.prototype', 'getExtension', 'method'],
+  ['WebGLRenderingContext.prototype', 'getSupportedExtensions', 'method'],
+  ['WebGLRenderingContext.prototype', 'getShaderPrecisionFormat', 'method'],
+  ['WebGLRenderingContext.prototype', 'readPixels', 'method'],
+  ['WebGL2RenderingContext.prototype', 'getParameter', 'method'],
+  ['OfflineAudioContext.prototype', 'startRendering', 'method'],
+  ['AudioBuffer.prototype', 'getChannelData', 'method'],
+  ['CanvasRenderingContext2D.prototype', 'getImageData', 'method'],
+  ['Navigator.prototype', 'userAgent', 'getter'],
+  ['Navigator.prototype', 'hardwareConcurrency', 'getter'],
+  ['Navigator.prototype', 'deviceMemory', 'getter'],
+  ['GPU.prototype', 'requestAdapter', 'method'],
+  ...['acos', 'acosh', 'asin', 'asinh', 'atan', 'atanh', 'sin', 'sinh', 'cos', 'cosh', 'tan', 'tanh'].map(
+    (name) => ['Math', name, 'builtin'] as const,
+  ),
+  ...['exp', 'expm1', 'log', 'log1p', 'pow', 'sqrt'].map((name) => ['Math', name, 'builtin'] as const),
+];
+
+/**
+ * Checks whether the browser APIs the sources depend on have been overridden, proxied or had
+ * their property descriptors altered, e.g. by an anti-fingerprinting or spoofing extension.
+ *
+ * @returns {TamperingResult} The tampered APIs.
+ *
+ * @example
+ * ```typescript
+ * const { detected, findings } = detectTampering();
+ * if (detected) {
+ *   console.log('Spoofed APIs:', findings.map(({ api }) => api));
+ * }
+ * ```
+ *
+ * @public
+ */
+export function detectTampering(): TamperingResult {
+  const findings: TamperingFinding[] = [];
+
+  for (const [ownerPath, property, kind] of checkedApis) {
+    const owner = resolvePath(ownerPath);
+    if (owner) {
+      checkProperty(owner, property, kind, `${ownerPath}.${property}`, findings);
+    }
+  }
+
+  // The navigator getters can also be shadowed on the instance without touching the prototype
+  if (typeof navigator !== 'undefined') {
+    for (const [ownerPath, property] of checkedApis) {
+      if (ownerPath === 'Navigator.prototype' && Object.getOwnPropertyDescriptor(navigator, property)) {
+        findings.push({ api: `navigator.${property}`, kind: 'descriptorAltered' });
+      }
+    }
+  }
+
+  return { detected: findings.length > 0, findings };
+}
+
+/**
+ * Gets an object by its dotted path from the global object.
+ *
+ * @internal
+ * @param {string} path - The dotted path, e.g. `WebGLRenderingContext.prototype`.
+ * @returns {object | undefined} The object, or undefined if any part of the path is missing.
+ */
+function resolvePath(path: string): object | undefined {
+  let value: unknown = globalThis;
+  for (const key of path.split('.')) {
+    if ((typeof value !== 'object' && typeof value !== 'function') || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return (typeof value === 'object' || typeof value === 'function') && value !== null ? value : undefined;
+}
+
+/**
+ * Checks a single property of an API owner and records what was tampered with.
+ *
+ * @internal
+ * @param {object} owner - The object owning the property, e.g. a prototype.
+ * @param {string} property - The property name.
+ * @param {PropertyKind} kind - The kind of the property.
+ * @param {string} api - The path of the API, for the findings.
+ * @param {TamperingFinding[]} findings - Receives the findings.
+ */
+function checkProperty(
+  owner: object,
+  property: string,
+  kind: PropertyKind,
+  api: string,
+  findings: TamperingFinding[],
+): void {
+  const descriptor = Object.getOwnPropertyDescriptor(owner, property);
+  if (!descriptor) {
+    return;
+  }
+
+  if (!isDescriptorNative(descriptor, kind)) {
+    findings.push({ api, kind: 'descriptorAltered' });
+  }
+
+  const func = kind === 'getter' ? descriptor.get : descriptor.value;
+  if (typeof func !== 'function') {
+    return;
+  }
+  const functionKind = getFunctionTampering(func, property);
+  if (functionKind) {
+    findings.push({ api, kind: functionKind });
+  }
+}
+
+/**
+ * Checks whether a property descriptor is the one a browser gives to a property of this kind.
+ *
+ * @internal
+ * @param {PropertyDescriptor} descriptor - The property descriptor.
+ * @param {PropertyKind} kind - The kind of the property.
+ * @returns {boolean} True if the descriptor looks native.
+ */
+function isDescriptorNative(descriptor: PropertyDescriptor, kind: PropertyKind): boolean {
+  if (kind === 'getter') {
+    return (
+      typeof descriptor.get === 'function' &&
+      !('value' in descriptor) &&
+      !!descriptor.enumerable &&
+      !!descriptor.configurable
+    );
+  }
+  return (
+    'value' in descriptor &&
+    !!descriptor.writable &&
+    !!descriptor.configurable &&
+    descriptor.enumerable === (kind === 'method')
+  );
+}
+
+/**
+ * Tells whether and how a function was replaced.
+ *
+ * `isFunctionNative` relies on the function's own `toString`, which a spoofer can override,
+ * so the source is also read with `Function.prototype.toString`. A Proxy or a bound function
+ * looks native, but its source has no function name.
+ *
+ * @internal
+ * @param {Function} func - The function to check.
+ * @param {string} name - The expected function name.
+ * @returns {TamperingKind | undefined} The kind of tampering, or undefined if the function looks native.
+ */
+function getFunctionTampering(func: (...args: unknown[]) => unknown, name: string): TamperingKind | undefined {
+  let source: string;
+  try {
+    source = Function.prototype.toString.call(func);
+  } catch {
+    // Only possible when `Function.prototype.toString` itself was replaced
+    return 'overridden';
+  }
+
+  if (!isFunctionNative(func) || !/\[native code]\s*}$/.test(source)) {
+    return 'overridden';
+  }
+  // Getters are named `get <name>` in some engines and `<name>` in others
+  if (!new RegExp(`^function\\s+(get\\s+)?${name}\\s*\\(`).test(source)) {
+    return 'proxied';
+  }
+  return undefined;
+}
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Detection of virtual machines, emulators and software renderers
+ *
+ * Fraud farms run browsers in virtual machines and Android emulators to get fresh devices on demand.
+ * The GPU they expose gives them away: the WebGL renderer and the WebGPU adapter name the virtual
+ * display adapter (VMware SVGA, VirtualBox, virtio) or a software rasterizer (llvmpipe, SwiftShader,
+ * Microsoft Basic Render Driver). Unusual CPU, memory and timer characteristics support the verdict.
+ *
+ * @module detectors/virtualization
+ */
+
+import type { BrowserSignals } from '../types';
+
+/**
+ * The virtualization technology behind the browser.
+ *
+ * - `vmware`, `virtualbox`, `parallels`, `qemu`: a virtual machine with the hypervisor's display adapter.
+ * - `androidEmulator`: the Android emulator.
+ * - `softwareRenderer`: a CPU-based GPU implementation, typical of virtual machines and cloud hosts
+ *   without a GPU (also used by headless browsers).
+ * - `unknown`: the characteristics point to a virtual machine, but don't tell which.
+ *
+ * @typedef {string} VirtualizationKind
+ */
+export type VirtualizationKind =
+  | 'vmware'
+  | 'virtualbox'
+  | 'parallels'
+  | 'qemu'
+  | 'androidEmulator'
+  | 'softwareRenderer'
+  | 'unknown';
+
+/**
+ * A characteristic of the device that points to virtualization.
+ *
+ * - `webglRenderer`: the WebGL renderer names a virtual adapter or a software renderer.
+ * - `webgpuAdapter`: the WebGPU adapter names a virtual adapter or a software renderer.
+ * - `webgpuFallbackAdapter`: WebGPU only offers a fallback (software) adapter. A missing adapter doesn't count:
+ *   a blocklisted or disabled GPU has none either.
+ * - `singleCore`: the device reports a single CPU core.
+ * - `oddCoreCount`: the device reports an odd number of CPU cores, as virtual CPUs can be assigned one by one.
+ * - `lowMemory`: the device reports at most 1 GB of memory.
+ * - `coarseTimer`: `performance.now()` is much coarser than usual.
+ *
+ * @typedef {string} VirtualizationEvidence
+ */
+export type VirtualizationEvidence =
+  | 'webglRenderer'
+  | 'webgpuAdapter'
+  | 'webgpuFallbackAdapter'
+  | 'singleCore'
+  | 'oddCoreCount'
+  | 'lowMemory'
+  | 'coarseTimer';
+
+/**
+ * The virtualization verdict.
+ *
+ * @interface VirtualizationResult
+ * @property {boolean} likely - Whether the browser likely runs in a virtual machine, an emulator or on a software renderer.
+ * @property {VirtualizationKind} [kind] - The virtualization technology, when virtualization is likely.
+ * @property {VirtualizationEvidence[]} evidence - The characteristics pointing to virtualization.
+ *
+ * @example
+ * ```typescript
+ * const virtualized: VirtualizationResult = {
+ *   likely: true,
+ *   kind: 'vmware',
+ *   evidence: ['webglRenderer', 'oddCoreCount'],
+ * };
+ * ```
+ */
+export interface VirtualizationResult {
+  /**
+   * Whether the browser likely runs in a virtual machine, an emulator or on a software renderer:
+   * the GPU gives it away, or several other characteristics point to it.
+   */
+  likely: boolean;
+  /**
+   * The virtualization technology, when virtualization is likely.
+   */
+  kind?: VirtualizationKind;
+  /**
+   * The characteristics pointing to virtualization, including when virtualization isn't likely.
+   */
+  evidence: VirtualizationEvidence[];
+}
+
+/**
+ * GPU name patterns of the virtualization technologies, matched against the WebGL renderer and
+ * vendor and the WebGPU adapter info. The order matters: the Android emulator translates to a host
+ * GPU or SwiftShader, so it's checked before the software renderers.
+ *
+ * @internal
+ */
+const gpuPatterns: ReadonlyArray<readonly [VirtualizationKind, RegExp]> = [
+  ['vmware', /vmware/i],
+  ['virtualbox', /virtualbox|vbox/i],
+  ['parallels', /parallels/i],
+  ['qemu', /qemu|virtio|red hat|bochs/i],
+  ['androidEmulator', /android emulator|goldfish|ranchu|gfxstream/i],
+  ['softwareRenderer', /llvmpipe|softpipe|swiftshader|basic render driver|software adapter|software rasterizer/i],
+];
+
+/**
+ * Evidence that is enough on its own to consider virtualization likely.
+ * The other evidence also occurs on real devices, so at least `minWeakEvidence` of it is required.
+ *
+ * @internal
+ */
+const strongEvidence: ReadonlySet<VirtualizationEvidence> = new Set<VirtualizationEvidence>([
+  'webglRenderer',
+  'webgpuAdapter',
+]);
+
+const minWeakEvidence = 2;
+
+/**
+ * The `performance.now()` resolution, in milliseconds, above which the timer is considered coarse.
+ * Browsers without privacy protections have a 1 ms resolution or better.
+ *
+ * @internal
+ */
+const coarseTimerResolution = 2;
+
+/**
+ * Tells whether the browser runs in a virtual machine, an Android emulator or on a software
+ * renderer, from the GPU information, the CPU core count, the memory and the timer resolution.
+ *
+ * @param {Partial<BrowserSignals>} signals - The collected signals.
+ * @returns {VirtualizationResult} The verdict, the virtualization technology and the evidence.
+ *
+ * @example
+ * ```typescript
+ * const virtualized = detectVirtualization(signals);
+ * if (virtualized.likely) {
+ *   console.log(`Runs on ${virtualized.kind}:`, virtualized.evidence);
+ * }
+ * ```
+ *
+ * @public
+ */
+export function detectVirtualization(signals: Partial<BrowserSignals>): VirtualizationResult {
+  const evidence: VirtualizationEvidence[] = [];
+  const { webgl, webgpu, hardwareConcurrency, deviceMemory, performanceTiming } = signals;
+
+  const webglKind = matchGpu([webgl?.rendererUnmasked, webgl?.vendorUnmasked, webgl?.renderer]);
+  if (webglKind) {
+    evidence.push('webglRenderer');
+  }
+  const webgpuKind = matchGpu([webgpu?.vendor, webgpu?.architecture, webgpu?.device, webgpu?.description]);
+  if (webgpuKind) {
+    evidence.push('webgpuAdapter');
+  }
+  if (webgpu?.isFallbackAdapter && !webgpu.adapterUnavailable) {
+    evidence.push('webgpuFallbackAdapter');
+  }
+
+  if (hardwareConcurrency === 1) {
+    evidence.push('singleCore');
+  } else if (hardwareConcurrency !== undefined && hardwareConcurrency % 2 === 1) {
+    evidence.push('oddCoreCount');
+  }
+  if (deviceMemory !== undefined && deviceMemory <= 1) {
+    evidence.push('lowMemory');
+  }
+  if ((performanceTiming?.resolution ?? 0) > coarseTimerResolution) {
+    evidence.push('coarseTimer');
+  }
+
+  const weakCount = evidence.filter((item) => !strongEvidence.has(item)).length;
+  const likely = evidence.some((item) => strongEvidence.has(item)) || weakCount >= minWeakEvidence;
+  if (!likely) {
+    return { likely, evidence };
+  }
+
+  const fallbackKind = evidence.includes('webgpuFallbackAdapter') ? 'softwareRenderer' : 'unknown';
+  return { likely, kind: webglKind ?? webgpuKind ?? fallbackKind, evidence };
+}
+
+/**
+ * Matches GPU names against the patterns of the virtualization technologies.
+ *
+ * @internal
+ * @param {Array<string | undefined>} names - The GPU names, e.g. the WebGL renderer and vendor.
+ * @returns {VirtualizationKind | undefined} The virtualization technology, or undefined if no name matches.
+ */
+function matchGpu(names: Array<string | undefined>): VirtualizationKind | undefined {
+  const text = names.filter(Boolean).join(' ');
+  if (!text) {
+    return undefined;
+  }
+  for (const [kind, pattern] of gpuPatterns) {
+    if (pattern.test(text)) {
+      return kind;
+    }
+  }
+  return undefined;
+}
@@ -29,6 +29,8 @@ declare global {
     URLPattern?: new (...args: unknown[]) => unknown;
     /** WebKit-prefixed OfflineAudioContext */
     webkitOfflineAudioContext?: typeof OfflineAudioContext;
+    /** WebKit-prefixed AudioContext */
+    webkitAudioContext?: typeof AudioContext;
     /** Legacy Web SQL Database API */
     openDatabase?(...args: unknown[]): void;
   }
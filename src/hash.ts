@@ -3,7 +3,8 @@
  * 
  * These functions are intentionally simple and dependency‑free so that the
  * open‑source GuardianJS build can run in any modern browser without relying
- * on Node's `crypto` module or Web Crypto APIs.
+ * on Node's `crypto` module or Web Crypto APIs. The keyed hash uses Web Crypto
+ * when it's available, and falls back to an identical pure-JS implementation.
  * 
  * The hashing algorithm used here is non-cryptographic but provides sufficient
  * collision resistance for fingerprinting purposes. For production-grade security,
@@ -12,6 +13,8 @@
  * @module hash
  */
 
+import { getUTF8Bytes } from './utils/data';
+
 /**
  * Canonicalizes an object/array into JSON with sorted keys to guarantee
  * stable hashing across runtimes.
@@ -123,5 +126,431 @@ export function stableHash(value: unknown): string {
   return hi + lo;
 }
 
+/**
+ * Simple, non‑cryptographic but stable 128-bit hash function.
+ *
+ * A wider variant of `stableHash` based on cyrb128: four 32-bit lanes, each chained to the next one,
+ * multiply every character of the input, and the final rounds mix the lanes into each other,
+ * producing a 32‑character hexadecimal string (128 bits of output). Use it where the
+ * birthday-collision risk of 64 bits matters, e.g. for visitor identifiers at high traffic.
+ *
+ * **Important:** This hash is not suitable for security-critical applications
+ * where resistance to intentional collisions is required.
+ *
+ * @param {unknown} value - The value to hash (will be canonicalized if not a string).
+ * @returns {string} A 32-character hexadecimal hash string.
+ *
+ * @example
+ * ```typescript
+ * stableHash128({ a: 1, b: 2 }) === stableHash128({ b: 2, a: 1 }); // true
+ * stableHash128('hello').length; // 32
+ * ```
+ *
+ * @see https://github.com/bryc/code/blob/master/jshash/PRNGs.md#cyrb128
+ * @public
+ */
+export function stableHash128(value: unknown): string {
+  const json = typeof value === 'string' ? value : canonicalize(value);
+  let h1 = 1779033703 ^ json.length;
+  let h2 = 3144134277 ^ json.length;
+  let h3 = 1013904242 ^ json.length;
+  let h4 = 2773480762 ^ json.length;
 
+  for (let i = 0; i < json.length; i++) {
+    const ch = json.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ ch, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ ch, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ ch, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ ch, 2716044179);
+  }
 
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+
+  return [h1, h2, h3, h4].map((h) => (h >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Text encodings of a hexadecimal digest.
+ *
+ * - `hex`: lowercase hexadecimal, unchanged.
+ * - `base62`: `[0-9A-Za-z]`, fixed length (22 characters for 128 bits).
+ * - `base32`: lowercase RFC 4648 alphabet without padding (26 characters for 128 bits).
+ * - `uuid`: RFC 9562 version 8 UUID (128-bit digests only; 6 bits are replaced by the version and variant).
+ *
+ * @typedef {string} DigestEncoding
+ */
+export type DigestEncoding = 'hex' | 'base62' | 'base32' | 'uuid';
+
+const base62Alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const base32Alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * Encodes a hexadecimal digest (such as a `stableHash128` output) as text.
+ *
+ * @param {string} hexDigest - The hexadecimal digest, with an even number of characters.
+ * @param {DigestEncoding} encoding - The output encoding.
+ * @returns {string} The encoded digest.
+ *
+ * @example
+ * ```typescript
+ * const digest = stableHash128('hello');
+ * encodeDigest(digest, 'base62'); // 22 characters
+ * encodeDigest(digest, 'uuid'); // 'xxxxxxxx-xxxx-8xxx-yxxx-xxxxxxxxxxxx'
+ * ```
+ *
+ * @public
+ */
+export function encodeDigest(hexDigest: string, encoding: DigestEncoding): string {
+  switch (encoding) {
+    case 'hex':
+      return hexDigest;
+    case 'base62':
+      return encodeBase62(hexToBytes(hexDigest), Math.ceil((hexDigest.length * 4) / Math.log2(62)));
+    case 'base32':
+      return encodeBase32(hexToBytes(hexDigest));
+    case 'uuid':
+      return formatUuid(hexDigest);
+  }
+}
+
+/**
+ * Converts a hexadecimal string into bytes.
+ *
+ * @internal
+ * @param {string} hex - The hexadecimal string.
+ * @returns {number[]} The bytes.
+ */
+function hexToBytes(hex: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+/**
+ * Encodes bytes, read as a big-endian number, in base 62 using long division.
+ * BigInt isn't used because it's unavailable in some supported browsers.
+ *
+ * @internal
+ * @param {number[]} bytes - The bytes to encode.
+ * @param {number} length - The output length; the result is left-padded with zeros.
+ * @returns {string} The base62 string.
+ */
+function encodeBase62(bytes: number[], length: number): string {
+  let digits = bytes.slice();
+  let result = '';
+
+  while (digits.some((digit) => digit !== 0)) {
+    const quotient: number[] = [];
+    let remainder = 0;
+    for (const digit of digits) {
+      const accumulator = remainder * 256 + digit;
+      const quotientDigit = Math.floor(accumulator / 62);
+      remainder = accumulator % 62;
+      if (quotient.length || quotientDigit) {
+        quotient.push(quotientDigit);
+      }
+    }
+    result = base62Alphabet[remainder] + result;
+    digits = quotient;
+  }
+
+  return result.padStart(length, base62Alphabet[0]);
+}
+
+/**
+ * Encodes bytes with the RFC 4648 base32 alphabet (lowercase, without padding).
+ *
+ * @internal
+ * @param {number[]} bytes - The bytes to encode.
+ * @returns {string} The base32 string.
+ */
+function encodeBase32(bytes: number[]): string {
+  let result = '';
+  let buffer = 0;
+  let bufferBits = 0;
+
+  for (const byte of bytes) {
+    // Only the bits that haven't been encoded yet are kept
+    buffer = ((buffer << 8) | byte) & 0xfff;
+    bufferBits += 8;
+    while (bufferBits >= 5) {
+      bufferBits -= 5;
+      result += base32Alphabet[(buffer >>> bufferBits) & 31];
+    }
+  }
+  if (bufferBits > 0) {
+    result += base32Alphabet[(buffer << (5 - bufferBits)) & 31];
+  }
+
+  return result;
+}
+
+/**
+ * Formats a 128-bit hexadecimal digest as an RFC 9562 version 8 (custom) UUID.
+ *
+ * @internal
+ * @param {string} hex - A 32-character hexadecimal digest.
+ * @returns {string} The UUID string.
+ */
+function formatUuid(hex: string): string {
+  if (hex.length !== 32) {
+    throw new Error('A UUID requires a 128-bit digest');
+  }
+
+  const version = '8';
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    version + hex.slice(13, 16),
+    variant + hex.slice(17, 20),
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * Number of bits in a SimHash digest (the same as in a `stableHash` output).
+ * @internal
+ */
+const simHashBits = 64;
+
+/**
+ * Computes a locality-sensitive SimHash digest of weighted features.
+ *
+ * Unlike `stableHash`, where any change yields a completely different output, the Hamming
+ * distance between two SimHash digests grows with the (weighted) number of features that
+ * differ. This allows finding similar inputs by comparing digests, without the inputs.
+ *
+ * Each feature is hashed with `stableHash`; every bit of the digest is set when the total
+ * weight of the features having this bit set exceeds the total weight of the others.
+ *
+ * @param {ReadonlyArray<readonly [string, number]>} features - Pairs of a feature string and its positive weight.
+ * @returns {string} A 16-character hexadecimal digest (64 bits).
+ *
+ * @example
+ * ```typescript
+ * const a = simHash([['gpu=apple m1', 7], ['hw=8', 2.5], ['mem=8', 1.5]]);
+ * const b = simHash([['gpu=apple m1', 7], ['hw=8', 2.5], ['mem=16', 1.5]]);
+ * hammingDistance(a, b); // small compared to 64
+ * ```
+ *
+ * @see https://en.wikipedia.org/wiki/SimHash
+ * @public
+ */
+export function simHash(features: ReadonlyArray<readonly [string, number]>): string {
+  const sums = Array<number>(simHashBits).fill(0);
+
+  for (const [feature, weight] of features) {
+    const hash = stableHash(feature);
+    for (let i = 0; i < simHashBits; i++) {
+      const bit = (parseInt(hash[i >> 2], 16) >> (3 - (i & 3))) & 1;
+      sums[i] += bit ? weight : -weight;
+    }
+  }
+
+  let digest = '';
+  for (let i = 0; i < simHashBits; i += 4) {
+    let nibble = 0;
+    for (let j = 0; j < 4; j++) {
+      nibble = (nibble << 1) | (sums[i + j] > 0 ? 1 : 0);
+    }
+    digest += nibble.toString(16);
+  }
+  return digest;
+}
+
+/**
+ * Counts the bits that differ between two hexadecimal digests of the same length,
+ * such as two `simHash` outputs.
+ *
+ * @param {string} a - The first hexadecimal digest.
+ * @param {string} b - The second hexadecimal digest.
+ * @returns {number} The number of differing bits.
+ *
+ * @example
+ * ```typescript
+ * hammingDistance('ff00', 'ff01'); // 1
+ * ```
+ *
+ * @public
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('The digests must have the same length');
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * SHA-256 round constants.
+ * @internal
+ */
+const sha256RoundConstants = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+/**
+ * The block size of SHA-256, in bytes.
+ * @internal
+ */
+const sha256BlockSize = 64;
+
+/**
+ * Computes the SHA-256 digest of bytes.
+ *
+ * @internal
+ * @param {ArrayLike<number>} bytes - The bytes to hash.
+ * @returns {number[]} The 32-byte digest.
+ * @see https://en.wikipedia.org/wiki/SHA-2
+ */
+function sha256(bytes: ArrayLike<number>): number[] {
+  // The message is padded with a single 1 bit, zeros and the 64-bit big-endian message length in bits
+  const paddedLength = Math.ceil((bytes.length + 9) / sha256BlockSize) * sha256BlockSize;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(Array.from(bytes));
+  padded[bytes.length] = 0x80;
+  const bitLength = bytes.length * 8;
+  for (let i = 0; i < 8; i++) {
+    padded[paddedLength - 1 - i] = i < 4 ? (bitLength >>> (i * 8)) & 0xff : Math.floor(bitLength / 2 ** (i * 8)) & 0xff;
+  }
+
+  const state = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const words = Array<number>(64);
+  const rotate = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+  for (let offset = 0; offset < paddedLength; offset += sha256BlockSize) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] = (padded[j] << 24) | (padded[j + 1] << 16) | (padded[j + 2] << 8) | padded[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotate(words[i - 15], 7) ^ rotate(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotate(words[i - 2], 17) ^ rotate(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + sha256RoundConstants[i] + words[i]) | 0;
+      const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => (state[i] = (state[i] + value) | 0));
+  }
+
+  const digest: number[] = [];
+  for (const value of state) {
+    digest.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+  }
+  return digest;
+}
+
+/**
+ * Converts bytes into a lowercase hexadecimal string.
+ *
+ * @internal
+ * @param {ArrayLike<number>} bytes - The bytes.
+ * @returns {string} The hexadecimal string.
+ */
+function bytesToHex(bytes: ArrayLike<number>): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Computes the HMAC-SHA-256 of a message (RFC 2104), without Web Crypto.
+ * Produces the same output as `hmacSha256Async`, synchronously.
+ *
+ * @param {string} key - The secret key; UTF-8 encoded.
+ * @param {string} message - The message; UTF-8 encoded.
+ * @returns {string} A 64-character hexadecimal digest (256 bits).
+ *
+ * @example
+ * ```typescript
+ * hmacSha256('key', 'The quick brown fox jumps over the lazy dog');
+ * // 'f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8'
+ * ```
+ *
+ * @public
+ */
+export function hmacSha256(key: string, message: string): string {
+  let keyBytes: ArrayLike<number> = getUTF8Bytes(key);
+  if (keyBytes.length > sha256BlockSize) {
+    keyBytes = sha256(keyBytes);
+  }
+
+  const innerPad = Array<number>(sha256BlockSize);
+  const outerPad = Array<number>(sha256BlockSize);
+  for (let i = 0; i < sha256BlockSize; i++) {
+    const keyByte = keyBytes[i] ?? 0;
+    innerPad[i] = keyByte ^ 0x36;
+    outerPad[i] = keyByte ^ 0x5c;
+  }
+
+  const innerHash = sha256([...innerPad, ...Array.from(getUTF8Bytes(message))]);
+  return bytesToHex(sha256([...outerPad, ...innerHash]));
+}
+
+/**
+ * Computes the HMAC-SHA-256 of a message with Web Crypto. Falls back to the pure-JS
+ * `hmacSha256` where Web Crypto is unavailable (e.g. insecure contexts) or fails;
+ * both produce the same output.
+ *
+ * @param {string} key - The secret key; UTF-8 encoded.
+ * @param {string} message - The message; UTF-8 encoded.
+ * @returns {Promise<string>} A 64-character hexadecimal digest (256 bits).
+ *
+ * @public
+ */
+export async function hmacSha256Async(key: string, message: string): Promise<string> {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle) {
+    return hmacSha256(key, message);
+  }
+
+  try {
+    const keyData = new Uint8Array(getUTF8Bytes(key));
+    const cryptoKey = await subtle.importKey('raw', keyData, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await subtle.sign('HMAC', cryptoKey, new Uint8Array(getUTF8Bytes(message)));
+    return bytesToHex(new Uint8Array(signature));
+  } catch {
+    // Some implementations reject keys that are valid for the pure-JS implementation, such as empty keys
+    return hmacSha256(key, message);
+  }
+}
@@ -28,8 +28,59 @@
 import { load } from './agent';
 export { load } from './agent';
 export type { Agent, GetOptions, GetResult, LoadOptions } from './agent';
-export type { BrowserSignals } from './types';
-export { computeAnchor, computeVisitorId, type AnchorPayload } from './anchor';
+export type { BrowserSignals, Component, Components, ComponentStatus } from './types';
+export {
+  anchorVersions,
+  compareAnchors,
+  computeAnchor,
+  computeKeyedVisitorId,
+  computeVisitorId,
+  latestAnchorVersion,
+} from './anchor';
+export type {
+  AnchorComparison,
+  AnchorComponentName,
+  AnchorOptions,
+  AnchorPayload,
+  AnchorVersion,
+  VisitorIdFormat,
+  VisitorIdOptions,
+  VisitorIdResult,
+} from './anchor';
+export {
+  encodeDigest,
+  hammingDistance,
+  hmacSha256,
+  hmacSha256Async,
+  simHash,
+  stableHash,
+  stableHash128,
+  type DigestEncoding,
+} from './hash';
+export { computeConfidence, type Confidence } from './confidence';
+export {
+  detectTampering,
+  type TamperingFinding,
+  type TamperingKind,
+  type TamperingResult,
+} from './detectors/tampering';
+export { detectBot, type BotIndicator, type BotKind, type BotResult } from './detectors/bot';
+export { detectPrivacyProtection, type PrivacyProtection, type PrivacyResult } from './detectors/privacy';
+export {
+  detectVirtualization,
+  type VirtualizationEvidence,
+  type VirtualizationKind,
+  type VirtualizationResult,
+} from './detectors/virtualization';
+export { createSourceRegistry, makeStatusError, optionalBuiltinSources } from './registry';
+export type {
+  BuiltinSourceName,
+  NamedComponentStatus,
+  RegisteredSource,
+  SourceCollector,
+  SourceOptions,
+  SourceRegistry,
+} from './registry';
 
 /**
  * Default export for CommonJS and ES module interoperability.
@@ -0,0 +1,431 @@
+/**
+ * @fileoverview Signal source registry
+ *
+ * This module keeps the list of signal sources that `computeBrowserSignals` runs.
+ * The built-in sources (WebGL, WebGPU, EME, math, audio, performance timing, etc.)
+ * are registered by default and can be replaced or disabled by name. The optional built-in
+ * sources (WebGL2, canvas, fonts, etc.) only feed the anchor when configured so, and the costly ones
+ * are only collected once enabled. Integrators can register their own sources, whose values flow
+ * into `BrowserSignals.custom` and, optionally, into the anchor.
+ *
+ * @module registry
+ */
+
+import type { BrowserSignals, ComponentStatus } from './types';
+import type { MaybePromise } from './utils/async';
+import {
+  getWebGlBasics,
+  getWebGl2Extensions,
+  getWebGlExtensions,
+  getWebGLContext,
+  SpecialStatus as WebGlSpecialStatus,
+  STATUS_NO_GL_CONTEXT,
+  WebGlCache,
+} from './sources/webgl';
+import getWebGpuInfo, { getWebGpuComputeFingerprint } from './sources/webgpu';
+import { resolveAudioFingerprint, resolveAudioGraphs } from './sources/audio';
+import getAudioDevice from './sources/audioDevice';
+import getMathFingerprint from './sources/math';
+import getEmeInfo from './sources/eme';
+import getPerformanceTiming from './sources/performance';
+import getNotificationPermissions from './sources/permissions';
+import getCanvasFingerprint from './sources/canvas';
+import getFonts from './sources/fonts';
+import getMediaCodecs from './sources/mediaCodecs';
+import getVoices from './sources/voices';
+import { getWebGlRendering } from './sources/webglRendering';
+
+/**
+ * Resources shared by the sources during a single collection.
+ *
+ * @interface SourceContext
+ * @property {WebGlCache} cache - WebGL and WebGL2 context cache. The contexts are released once every collector
+ *   has settled.
+ * @property {AbortSignal} [signal] - Fires when the source or the whole collection times out or is aborted.
+ */
+export interface SourceContext {
+  cache: WebGlCache;
+  /**
+   * Fires when the source or the whole collection times out or is aborted. The source value is discarded
+   * by then, so long-running sources should stop their work. Set by `computeBrowserSignals`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A function that collects the value of a signal source.
+ * It may be synchronous or asynchronous; asynchronous sources run concurrently.
+ * Thrown errors make the source value `undefined` and are reported in the source
+ * component (see `makeStatusError` for named statuses).
+ *
+ * @template T
+ * @typedef {(context: SourceContext) => MaybePromise<T>} SourceCollector
+ */
+export type SourceCollector<T = unknown> = (context: SourceContext) => MaybePromise<T>;
+
+/**
+ * Names of the built-in sources. Each of them fills the `BrowserSignals` field with the same name.
+ *
+ * @typedef {string} BuiltinSourceName
+ */
+export type BuiltinSourceName = Exclude<keyof BrowserSignals, 'custom' | 'anchorSources'>;
+
+/**
+ * Options for registering a signal source.
+ *
+ * @interface SourceOptions
+ * @property {boolean} [includeInAnchor] - Whether the source value is hashed into the anchor.
+ * @property {number} [timeout] - Time budget of the source, in milliseconds.
+ * @property {boolean} [enabled] - Whether the source is collected.
+ */
+export interface SourceOptions {
+  /**
+   * Whether the source value is hashed into the anchor (and therefore into the visitorId).
+   * Applies to custom sources and to the optional built-in sources (see `optionalBuiltinSources`).
+   * The other built-in sources always feed the anchor while they are registered; unregister
+   * such a source to keep it out of the anchor.
+   */
+  includeInAnchor?: boolean;
+  /**
+   * Time budget of the source, in milliseconds. A source that doesn't complete in time gets
+   * the `timeout` status and no value. Synchronous sources can't be interrupted.
+   * Unlimited by default (the overall `load({ timeout })` still applies).
+   */
+  timeout?: number;
+  /**
+   * Whether the source is collected. A disabled source stays registered, but isn't run and has no component.
+   * Enabled by default, except for the costly optional built-in sources (e.g. `canvas`), which `configureSource`
+   * also enables when it includes them in the anchor.
+   */
+  enabled?: boolean;
+}
+
+/**
+ * A source as stored in the registry.
+ *
+ * @interface RegisteredSource
+ * @property {string} name - Unique source name.
+ * @property {SourceCollector} collector - The function collecting the source value.
+ * @property {boolean} includeInAnchor - Whether the source value is hashed into the anchor.
+ * @property {number} [timeout] - Time budget of the source, in milliseconds.
+ * @property {boolean} enabled - Whether the source is collected.
+ */
+export interface RegisteredSource {
+  name: string;
+  collector: SourceCollector;
+  includeInAnchor: boolean;
+  timeout?: number;
+  enabled: boolean;
+}
+
+/**
+ * A mutable list of signal sources passed to `load({ sources })`.
+ *
+ * @interface SourceRegistry
+ *
+ * @example
+ * ```typescript
+ * const sources = createSourceRegistry()
+ *   .registerSource('appCapabilities', () => probeAppCapabilities(), { includeInAnchor: true })
+ *   .unregisterSource('eme');
+ * const agent = await load({ sources });
+ * ```
+ */
+export interface SourceRegistry {
+  /**
+   * Registers a source. A source registered under an existing name replaces it,
+   * keeping its position in the collection order.
+   *
+   * @param {string} name - Source name. Built-in names fill the matching `BrowserSignals` field.
+   * @param {SourceCollector} collector - The function collecting the source value.
+   * @param {SourceOptions} [options] - Registration options.
+   * @returns {SourceRegistry} The registry, for chaining.
+   */
+  registerSource<K extends BuiltinSourceName>(
+    name: K,
+    collector: SourceCollector<BrowserSignals[K]>,
+    options?: SourceOptions,
+  ): SourceRegistry;
+  registerSource<T>(name: string, collector: SourceCollector<T>, options?: SourceOptions): SourceRegistry;
+  /**
+   * Removes a source (built-in or custom) by name. Unknown names are ignored.
+   *
+   * @param {string} name - Source name.
+   * @returns {SourceRegistry} The registry, for chaining.
+   */
+  unregisterSource(name: string): SourceRegistry;
+  /**
+   * Changes the options of a registered source (built-in or custom), keeping its collector.
+   * The given options are merged into the current ones; `includeInAnchor: true` also enables the source
+   * unless `enabled` is given. Unknown names are ignored.
+   *
+   * @param {string} name - Source name.
+   * @param {SourceOptions} options - Registration options.
+   * @returns {SourceRegistry} The registry, for chaining.
+   *
+   * @example
+   * ```typescript
+   * const sources = createSourceRegistry()
+   *   .configureSource('canvas', { includeInAnchor: true })
+   *   .configureSource('fonts', { enabled: true });
+   * ```
+   */
+  configureSource(name: string, options: SourceOptions): SourceRegistry;
+  /**
+   * Returns the registered sources in collection order, including the disabled ones.
+   *
+   * @returns {ReadonlyArray<RegisteredSource>} The registered sources.
+   */
+  getSources(): ReadonlyArray<RegisteredSource>;
+}
+
+/**
+ * A component status that a collector can report by throwing `makeStatusError(status)`.
+ *
+ * @typedef {string} NamedComponentStatus
+ */
+export type NamedComponentStatus = Exclude<ComponentStatus, 'ok' | 'error'>;
+
+const namedStatuses: ReadonlySet<string> = new Set<NamedComponentStatus>([
+  'noGlContext',
+  'getParameterNotAFunction',
+  'timeout',
+  'aborted',
+]);
+
+/**
+ * Creates an error that makes the source component report the given status instead of a generic `error`.
+ * Collectors throw it when the value is unavailable for a known, expected reason.
+ *
+ * @param {NamedComponentStatus} status - The status to report.
+ * @returns {Error} An error named after the status.
+ *
+ * @example
+ * ```typescript
+ * sources.registerSource('webgl', () => {
+ *   const basics = getWebGlBasics({ cache: {} });
+ *   if (basics === STATUS_NO_GL_CONTEXT) throw makeStatusError('noGlContext');
+ *   // ...
+ * });
+ * ```
+ *
+ * @public
+ */
+export function makeStatusError(status: NamedComponentStatus): Error {
+  const error = new Error(status);
+  error.name = status;
+  return error;
+}
+
+/**
+ * Gets the named status carried by an error created with `makeStatusError`.
+ *
+ * @param {unknown} error - The error thrown by a collector.
+ * @returns {NamedComponentStatus | undefined} The named status, or undefined for other errors.
+ *
+ * @public
+ */
+export function getErrorStatus(error: unknown): NamedComponentStatus | undefined {
+  return error instanceof Error && namedStatuses.has(error.name) ? (error.name as NamedComponentStatus) : undefined;
+}
+
+/**
+ * Converts a WebGL special status code into a status error.
+ *
+ * @internal
+ * @param {WebGlSpecialStatus} status - The status code returned by a WebGL source.
+ * @returns {Error} The status error.
+ */
+function makeWebGlStatusError(status: WebGlSpecialStatus): Error {
+  return makeStatusError(status === STATUS_NO_GL_CONTEXT ? 'noGlContext' : 'getParameterNotAFunction');
+}
+
+/**
+ * Collects the WebGL basics together with the list of supported extensions.
+ *
+ * @internal
+ * @param {SourceContext} context - The shared collection resources.
+ * @returns {BrowserSignals['webgl']} The WebGL basics.
+ * @throws A status error when WebGL is unavailable.
+ */
+function collectWebGl({ cache }: SourceContext): BrowserSignals['webgl'] {
+  const basics = getWebGlBasics({ cache });
+  if (typeof basics === 'number') {
+    throw makeWebGlStatusError(basics);
+  }
+
+  return {
+    version: basics.version,
+    vendor: basics.vendor,
+    renderer: basics.renderer,
+    vendorUnmasked: basics.vendorUnmasked,
+    rendererUnmasked: basics.rendererUnmasked,
+    shadingLanguageVersion: basics.shadingLanguageVersion,
+    extensions: getWebGLContext(cache)?.getSupportedExtensions() ?? undefined,
+  };
+}
+
+/**
+ * Safely attempts to access the global Navigator object.
+ *
+ * @internal
+ * @returns {Navigator | undefined} The Navigator object, or undefined if unavailable.
+ */
+function getNavigatorSafe(): Navigator | undefined {
+  try {
+    return typeof navigator !== 'undefined' ? navigator : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The built-in sources in their collection order, with their default registration options.
+ * The promise-based browser APIs that are known to hang in some environments get a time budget.
+ *
+ * @internal
+ */
+const builtinSources: ReadonlyArray<[BuiltinSourceName, SourceCollector, SourceOptions?]> = [
+  ['userAgent', () => getNavigatorSafe()?.userAgent || ''],
+  [
+    'hardwareConcurrency',
+    () => {
+      const value = getNavigatorSafe()?.hardwareConcurrency;
+      return typeof value === 'number' ? value : undefined;
+    },
+  ],
+  [
+    'deviceMemory',
+    () => {
+      const value = getNavigatorSafe()?.deviceMemory;
+      return typeof value === 'number' ? value : undefined;
+    },
+  ],
+  ['notificationPermissions', getNotificationPermissions, { timeout: 200 }],
+  ['webgl', collectWebGl],
+  [
+    'webgExtensions',
+    ({ cache }) => {
+      const extensions = getWebGlExtensions({ cache });
+      if (typeof extensions === 'number') {
+        throw makeWebGlStatusError(extensions);
+      }
+      return extensions;
+    },
+  ],
+  [
+    'webgl2',
+    ({ cache }) => {
+      const extensions = getWebGl2Extensions({ cache });
+      if (typeof extensions === 'number') {
+        throw makeWebGlStatusError(extensions);
+      }
+      return extensions;
+    },
+    { enabled: false },
+  ],
+  ['webgpu', getWebGpuInfo, { timeout: 1000 }],
+  ['webgpuCompute', () => getWebGpuComputeFingerprint(), { enabled: false, timeout: 1000 }],
+  ['eme', getEmeInfo, { timeout: 1000 }],
+  ['mediaCodecs', () => getMediaCodecs(), { enabled: false, timeout: 1000 }],
+  ['mathFingerprint', getMathFingerprint],
+  ['performanceTiming', getPerformanceTiming],
+  ['audioFingerprint', () => resolveAudioFingerprint()],
+  ['audioGraphs', () => resolveAudioGraphs(), { enabled: false, timeout: 1000 }],
+  ['audioDevice', () => getAudioDevice(), { timeout: 1000 }],
+  ['canvas', getCanvasFingerprint, { enabled: false }],
+  ['fonts', getFonts, { enabled: false, timeout: 1000 }],
+  ['voices', getVoices, { enabled: false, timeout: 1000 }],
+  [
+    'webglRendering',
+    ({ cache }) => {
+      const rendering = getWebGlRendering({ cache });
+      if (typeof rendering === 'number') {
+        throw makeWebGlStatusError(rendering);
+      }
+      return rendering;
+    },
+    { enabled: false },
+  ],
+];
+
+/**
+ * The built-in sources that only feed the anchor when registered or configured with `includeInAnchor: true`.
+ * Including them changes the visitorIds. The costly ones are also only collected once enabled
+ * (`includeInAnchor: true` enables them too).
+ *
+ * @public
+ */
+export const optionalBuiltinSources: ReadonlyArray<BuiltinSourceName> = [
+  'webgl2',
+  'webgpuCompute',
+  'mediaCodecs',
+  'audioDevice',
+  'audioGraphs',
+  'canvas',
+  'fonts',
+  'voices',
+  'webglRendering',
+];
+
+/**
+ * Checks whether a source name belongs to a built-in source.
+ *
+ * @param {string} name - Source name.
+ * @returns {boolean} True if the name is a built-in source name.
+ *
+ * @public
+ */
+export function isBuiltinSourceName(name: string): name is BuiltinSourceName {
+  return builtinSources.some(([builtinName]) => builtinName === name);
+}
+
+/**
+ * Creates a source registry pre-populated with the built-in sources.
+ *
+ * @returns {SourceRegistry} A new registry. Changing it doesn't affect other registries.
+ *
+ * @example
+ * ```typescript
+ * const sources = createSourceRegistry();
+ * sources.registerSource('darkMode', () => matchMedia('(prefers-color-scheme: dark)').matches);
+ * const agent = await load({ sources });
+ * const result = await agent.get();
+ * console.log(result.signals.custom?.darkMode);
+ * ```
+ *
+ * @public
+ */
+export function createSourceRegistry(): SourceRegistry {
+  const sources = new Map<string, RegisteredSource>();
+  const registry: SourceRegistry = {
+    registerSource(name: string, collector: SourceCollector, options: SourceOptions = {}) {
+      const { includeInAnchor, timeout, enabled = true } = options;
+      sources.set(name, { name, collector, includeInAnchor: !!includeInAnchor, timeout, enabled });
+      return registry;
+    },
+    unregisterSource(name) {
+      sources.delete(name);
+      return registry;
+    },
+    configureSource(name, options) {
+      const source = sources.get(name);
+      if (source) {
+        const { includeInAnchor, timeout } = source;
+        // The anchor can't include a source that isn't collected
+        const enabled = source.enabled || !!options.includeInAnchor;
+        registry.registerSource(name, source.collector, { includeInAnchor, timeout, enabled, ...options });
+      }
+      return registry;
+    },
+    getSources() {
+      return [...sources.values()];
+    },
+  };
+
+  for (const [name, collector, options] of builtinSources) {
+    registry.registerSource(name, collector, options);
+  }
+
+  return registry;
+}
@@ -15,13 +15,19 @@
  * for fingerprinting. However, some browsers apply anti-fingerprinting measures
  * that add noise to audio output, particularly in private browsing modes.
  * 
+ * The legacy fingerprint is the sum of the absolute sample values of that graph. The graph
+ * variants fingerprint (`resolveAudioGraphs`) also renders biquad filters, other oscillator
+ * types and an analyser, and hashes the sample buffers, so that devices with the same
+ * compressor sum can still be told apart.
+ * 
  * @module sources/audio
  * @see https://fingerprint.com/blog/audio-fingerprinting/
  * @see https://github.com/cozylife/audio-fingerprint
  */
 
+import { stableHash } from "../hash";
 import * as browser from "../utils/browser";
-import { isPromise, suppressUnhandledRejectionWarning } from "../utils/async";
+import { isPromise, suppressUnhandledRejectionWarning, wait } from "../utils/async";
 
 /**
  * Special fingerprint values indicating various failure or unsupported states.
@@ -39,6 +45,63 @@ export const enum SpecialFingerprint {
   KnownForAntifingerprinting = -4,
 }
 
+/**
+ * A resolved special fingerprint, kept distinguishable from real fingerprint values.
+ *
+ * @typedef {Object} SpecialAudioFingerprint
+ * @property {string} special - The reason why no audio fingerprint is available.
+ *
+ * @example
+ * ```typescript
+ * const special: SpecialAudioFingerprint = { special: 'timeout' };
+ * ```
+ */
+export type SpecialAudioFingerprint = {
+  special: "knownForSuspending" | "notSupported" | "timeout" | "knownForAntifingerprinting";
+};
+
+/**
+ * The audio graph variants fingerprint: the hash of the rendered samples of every graph variant.
+ *
+ * @typedef {Object} AudioGraphsFingerprint
+ * @property {string} compressor - Triangle oscillator through a dynamics compressor (the legacy graph).
+ * @property {string} biquad - Sawtooth oscillator through low-pass and peaking biquad filters.
+ * @property {string} oscillators - Sine, square and custom periodic wave oscillators through a wave shaper.
+ * @property {string} [analyser] - FFT output of an analyser on the legacy graph. Missing where offline
+ *   contexts can't be suspended (e.g. Firefox) or the analyser data couldn't be read.
+ *
+ * @example
+ * ```typescript
+ * const graphs: AudioGraphsFingerprint = {
+ *   compressor: '1a2b3c4d5e6f7a8b',
+ *   biquad: '9c0d1e2f3a4b5c6d',
+ *   oscillators: '7e8f9a0b1c2d3e4f',
+ *   analyser: '5a6b7c8d9e0f1a2b',
+ * };
+ * ```
+ */
+export type AudioGraphsFingerprint = {
+  compressor: string;
+  biquad: string;
+  oscillators: string;
+  analyser?: string;
+};
+
+/**
+ * Length of the rendered audio, in samples, and the index of the first sample the fingerprints use.
+ * The first samples are left out while the compressor settles.
+ * @internal
+ */
+const hashFromIndex = 4500;
+const hashToIndex = 5000;
+
+/**
+ * Maximum time to wait for the lazy audio fingerprint to resolve, in milliseconds.
+ * Covers the suspended-context retries performed by `startRenderingAudio`.
+ * @internal
+ */
+const resolveTimeout = 2000;
+
 /**
  * Internal error names for audio processing failures.
  * @internal
@@ -118,24 +181,8 @@ export function getUnstableAudioFingerprint():
     return SpecialFingerprint.KnownForSuspending;
   }
 
-  const hashFromIndex = 4500;
-  const hashToIndex = 5000;
   const context = new AudioContext(1, hashToIndex, 44100);
-
-  const oscillator = context.createOscillator();
-  oscillator.type = "triangle";
-  oscillator.frequency.value = 10000;
-
-  const compressor = context.createDynamicsCompressor();
-  compressor.threshold.value = -50;
-  compressor.knee.value = 40;
-  compressor.ratio.value = 12;
-  compressor.attack.value = 0;
-  compressor.release.value = 0.25;
-
-  oscillator.connect(compressor);
-  compressor.connect(context.destination);
-  oscillator.start(0);
+  connectCompressorGraph(context).connect(context.destination);
 
   const [renderPromise, finishRendering] = startRenderingAudio(context);
   // Suppresses the console error message in case when the fingerprint fails before requested
@@ -160,6 +207,275 @@ export function getUnstableAudioFingerprint():
   };
 }
 
+/**
+ * Gets the audio fingerprint and resolves the lazy thunk, if any, into a final value.
+ *
+ * The thunk returned by `getAudioFingerprint` only starts finishing the render when it's called,
+ * so this function calls it and waits for the result no longer than `timeoutMs`.
+ * Special status codes are converted to `SpecialAudioFingerprint` objects so that they can't
+ * be confused with real fingerprint values.
+ *
+ * @param {number} [timeoutMs=2000] - Maximum time to wait for the rendering to finish.
+ * @returns {Promise<number | SpecialAudioFingerprint>} The fingerprint or the reason why it's unavailable.
+ *
+ * @example
+ * ```typescript
+ * const fingerprint = await resolveAudioFingerprint();
+ * if (typeof fingerprint === 'number') {
+ *   console.log('Audio fingerprint:', fingerprint);
+ * } else {
+ *   console.log('Audio fingerprinting unavailable:', fingerprint.special);
+ * }
+ * ```
+ *
+ * @public
+ */
+export async function resolveAudioFingerprint(
+  timeoutMs = resolveTimeout
+): Promise<number | SpecialAudioFingerprint> {
+  const fingerprint = getAudioFingerprint();
+  const value =
+    typeof fingerprint === "function"
+      ? await Promise.race([fingerprint(), wait(timeoutMs, SpecialFingerprint.Timeout)])
+      : fingerprint;
+  return toSpecialAudioFingerprint(value) ?? value;
+}
+
+/**
+ * Renders the audio graph variants and hashes their samples.
+ *
+ * The same browsers as for `getAudioFingerprint` are skipped. The variants render concurrently,
+ * in separate offline contexts, and the whole rendering takes no longer than `timeoutMs`.
+ *
+ * @param {number} [timeoutMs=2000] - Maximum time to wait for the rendering to finish.
+ * @returns {Promise<AudioGraphsFingerprint | SpecialAudioFingerprint>} The hashes, or the reason why they're
+ *   unavailable.
+ *
+ * @example
+ * ```typescript
+ * const graphs = await resolveAudioGraphs();
+ * if (!('special' in graphs)) {
+ *   console.log('Biquad graph hash:', graphs.biquad);
+ * }
+ * ```
+ *
+ * @public
+ */
+export async function resolveAudioGraphs(
+  timeoutMs = resolveTimeout
+): Promise<AudioGraphsFingerprint | SpecialAudioFingerprint> {
+  const AudioContext = window.OfflineAudioContext || window.webkitOfflineAudioContext;
+  if (isSafari17OrNewer() || !AudioContext) {
+    return { special: "notSupported" };
+  }
+  if (doesBrowserPerformAntifingerprinting()) {
+    return { special: "knownForAntifingerprinting" };
+  }
+  if (doesBrowserSuspendAudioContext()) {
+    return { special: "knownForSuspending" };
+  }
+
+  const makeContext = () => new AudioContext(1, hashToIndex, 44100);
+  const renderVariant = async (build: AudioGraphVariant) => {
+    const context = makeContext();
+    const getSamples = build(context);
+    return stableHash(Array.from(getSamples(await renderAudioBuffer(context))));
+  };
+  // Suppresses the console error message in case when the rendering fails after the timeout
+  const hashesPromise = suppressUnhandledRejectionWarning(
+    Promise.all([
+      renderVariant(buildCompressorVariant),
+      renderVariant(buildBiquadVariant),
+      renderVariant(buildOscillatorsVariant),
+      // The analyser data is read while the rendering is suspended, which Firefox doesn't support
+      typeof AudioContext.prototype.suspend === "function" ? renderAnalyserGraph(makeContext()) : undefined,
+    ])
+  );
+
+  try {
+    const hashes = await Promise.race([hashesPromise, wait(timeoutMs, undefined)]);
+    if (!hashes) {
+      return { special: "timeout" };
+    }
+    const [compressor, biquad, oscillators, analyser] = hashes;
+    return { compressor, biquad, oscillators, analyser };
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.name === InnerErrorName.Timeout || error.name === InnerErrorName.Suspended)
+    ) {
+      return { special: "timeout" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Builds an audio graph variant in an offline context, connected to the destination.
+ * Returns the function that extracts the fingerprinted samples from the rendered buffer.
+ *
+ * @internal
+ */
+type AudioGraphVariant = (context: OfflineAudioContext) => (buffer: AudioBuffer) => ArrayLike<number>;
+
+/**
+ * Reads the fingerprinted range of the rendered samples.
+ * @internal
+ */
+const getHashedSamples = (buffer: AudioBuffer) => buffer.getChannelData(0).subarray(hashFromIndex);
+
+/**
+ * Renders the graph built in an offline context, with the retries of `startRenderingAudio`.
+ *
+ * @internal
+ * @param {OfflineAudioContext} context - The context the graph is built in.
+ * @returns {Promise<AudioBuffer>} The rendered buffer.
+ */
+function renderAudioBuffer(context: OfflineAudioContext): Promise<AudioBuffer> {
+  const [renderPromise, finishRendering] = startRenderingAudio(context);
+  finishRendering();
+  return renderPromise;
+}
+
+/**
+ * Connects the legacy graph: a triangle oscillator through a dynamics compressor.
+ *
+ * @internal
+ * @param {BaseAudioContext} context - The audio context.
+ * @returns {AudioNode} The graph output node, to connect to the destination or another node.
+ */
+function connectCompressorGraph(context: BaseAudioContext): AudioNode {
+  const oscillator = context.createOscillator();
+  oscillator.type = "triangle";
+  oscillator.frequency.value = 10000;
+
+  const compressor = context.createDynamicsCompressor();
+  compressor.threshold.value = -50;
+  compressor.knee.value = 40;
+  compressor.ratio.value = 12;
+  compressor.attack.value = 0;
+  compressor.release.value = 0.25;
+
+  oscillator.connect(compressor);
+  oscillator.start(0);
+  return compressor;
+}
+
+const buildCompressorVariant: AudioGraphVariant = (context) => {
+  connectCompressorGraph(context).connect(context.destination);
+  return getHashedSamples;
+};
+
+const buildBiquadVariant: AudioGraphVariant = (context) => {
+  const oscillator = context.createOscillator();
+  oscillator.type = "sawtooth";
+  oscillator.frequency.value = 440;
+
+  const lowpass = context.createBiquadFilter();
+  lowpass.type = "lowpass";
+  lowpass.frequency.value = 1000;
+  lowpass.Q.value = 8;
+
+  const peaking = context.createBiquadFilter();
+  peaking.type = "peaking";
+  peaking.frequency.value = 3000;
+  peaking.gain.value = 12;
+
+  oscillator.connect(lowpass);
+  lowpass.connect(peaking);
+  peaking.connect(context.destination);
+  oscillator.start(0);
+  return getHashedSamples;
+};
+
+const buildOscillatorsVariant: AudioGraphVariant = (context) => {
+  const mix = context.createGain();
+  mix.gain.value = 0.3;
+
+  const sine = context.createOscillator();
+  sine.type = "sine";
+  sine.frequency.value = 1000;
+
+  const square = context.createOscillator();
+  square.type = "square";
+  square.frequency.value = 3333;
+
+  const custom = context.createOscillator();
+  custom.setPeriodicWave(
+    context.createPeriodicWave(new Float32Array([0, 0.3, 0.2, 0.1]), new Float32Array([0, 0.5, 0.1, 0.05]))
+  );
+  custom.frequency.value = 777;
+
+  // The wave shaper curve makes the output depend on its interpolation and the math precision
+  const shaper = context.createWaveShaper();
+  const curve = new Float32Array(257);
+  for (let i = 0; i < curve.length; i++) {
+    curve[i] = Math.tanh(((i / (curve.length - 1)) * 2 - 1) * 3);
+  }
+  shaper.curve = curve;
+
+  for (const oscillator of [sine, square, custom]) {
+    oscillator.connect(mix);
+    oscillator.start(0);
+  }
+  mix.connect(shaper);
+  shaper.connect(context.destination);
+  return getHashedSamples;
+};
+
+/**
+ * Renders the legacy graph through an analyser and hashes its FFT output, read while the rendering
+ * is suspended at the start of the fingerprinted range.
+ *
+ * @internal
+ * @param {OfflineAudioContext} context - The context to render the graph in.
+ * @returns {Promise<string | undefined>} The hash, or undefined if the analyser data couldn't be read.
+ */
+async function renderAnalyserGraph(context: OfflineAudioContext): Promise<string | undefined> {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 256;
+  connectCompressorGraph(context).connect(analyser);
+  analyser.connect(context.destination);
+
+  // Stays undefined if the suspension or the read fails; the rendering is resumed either way
+  let frequencyData: Float32Array | undefined;
+  context
+    .suspend(hashFromIndex / context.sampleRate)
+    .then(() => {
+      const data = new Float32Array(analyser.frequencyBinCount);
+      analyser.getFloatFrequencyData(data);
+      frequencyData = data;
+    })
+    .catch(() => undefined)
+    .then(() => context.resume())
+    .catch(() => undefined);
+
+  await renderAudioBuffer(context);
+  return frequencyData && stableHash(Array.from(frequencyData));
+}
+
+/**
+ * Converts a special status code into a `SpecialAudioFingerprint` object.
+ *
+ * @internal
+ * @param {number} value - A fingerprint value or a special status code.
+ * @returns {SpecialAudioFingerprint | undefined} The special fingerprint, or undefined if the value is a real fingerprint.
+ */
+function toSpecialAudioFingerprint(value: number): SpecialAudioFingerprint | undefined {
+  switch (value) {
+    case SpecialFingerprint.KnownForSuspending:
+      return { special: "knownForSuspending" };
+    case SpecialFingerprint.NotSupported:
+      return { special: "notSupported" };
+    case SpecialFingerprint.Timeout:
+      return { special: "timeout" };
+    case SpecialFingerprint.KnownForAntifingerprinting:
+      return { special: "knownForAntifingerprinting" };
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Checks if the current browser is known for always suspending audio context.
  * 
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Audio output device properties
+ *
+ * This module reads the properties of a live `AudioContext`: the sample rate, the latencies and the
+ * channel configuration of the audio output. Unlike the rendered audio fingerprint, they reflect the
+ * actual audio hardware and its driver settings, so they can be checked for consistency with the other
+ * signals (e.g. a mobile User-Agent with a 7.1 output). They change when the user switches the output
+ * device, which is why they are kept out of the anchor by default.
+ *
+ * The context is never connected to a source nor resumed, so nothing is played, and it is closed right away.
+ *
+ * @module sources/audioDevice
+ */
+
+/**
+ * The audio output device properties.
+ *
+ * @typedef {Object} AudioDeviceInfo
+ * @property {number} sampleRate - The sample rate of the output, in Hz.
+ * @property {number} [baseLatency] - The processing latency of the context, in seconds.
+ * @property {number} [outputLatency] - The latency between the context and the audio hardware, in seconds.
+ *   Some browsers report 0 until the context runs.
+ * @property {number} maxChannelCount - The maximum number of output channels.
+ * @property {string} channelCountMode - The channel count mode of the destination.
+ * @property {string} channelInterpretation - The channel interpretation of the destination.
+ *
+ * @example
+ * ```typescript
+ * const audioDevice: AudioDeviceInfo = {
+ *   sampleRate: 48000,
+ *   baseLatency: 0.01,
+ *   outputLatency: 0.04,
+ *   maxChannelCount: 2,
+ *   channelCountMode: 'explicit',
+ *   channelInterpretation: 'speakers',
+ * };
+ * ```
+ */
+export type AudioDeviceInfo = {
+  sampleRate: number;
+  baseLatency?: number;
+  outputLatency?: number;
+  maxChannelCount: number;
+  channelCountMode: string;
+  channelInterpretation: string;
+};
+
+/**
+ * Reads the audio output device properties from a live, silent `AudioContext`.
+ *
+ * @returns {Promise<AudioDeviceInfo | undefined>} The properties, or undefined if the browser has no `AudioContext`.
+ *
+ * @example
+ * ```typescript
+ * const audioDevice = await getAudioDevice();
+ * console.log('Output sample rate:', audioDevice?.sampleRate);
+ * ```
+ *
+ * @public
+ */
+export default async function getAudioDevice(): Promise<AudioDeviceInfo | undefined> {
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  if (!AudioContextClass) {
+    return undefined;
+  }
+
+  const context = new AudioContextClass();
+  try {
+    const { destination } = context;
+    return {
+      sampleRate: context.sampleRate,
+      baseLatency: getLatency(context.baseLatency),
+      outputLatency: getLatency(context.outputLatency),
+      maxChannelCount: destination.maxChannelCount,
+      channelCountMode: destination.channelCountMode,
+      channelInterpretation: destination.channelInterpretation,
+    };
+  } finally {
+    // Browsers limit the number of live audio contexts
+    await context.close?.().catch(() => undefined);
+  }
+}
+
+/**
+ * Keeps a latency only when it's a number (older browsers don't have the latency attributes).
+ *
+ * @internal
+ * @param {unknown} latency - The latency attribute value.
+ * @returns {number | undefined} The latency, in seconds.
+ */
+function getLatency(latency: unknown): number | undefined {
+  return typeof latency === 'number' ? latency : undefined;
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Canvas 2D rendering fingerprint
+ *
+ * This module renders fixed text, emoji and geometry to a 2D canvas and hashes the resulting
+ * pixels. The output depends on the fonts, the text rasterizer, the anti-aliasing and the
+ * blending implementation, which vary across operating systems, GPUs and browser versions.
+ *
+ * Some browsers and extensions randomize canvas readbacks to defeat fingerprinting. Each image
+ * is therefore rendered twice; when the two renderings differ, the image is reported as `unstable`
+ * instead of a hash that would change on every page load.
+ *
+ * @module sources/canvas
+ */
+
+import { stableHash } from '../hash';
+
+/**
+ * The state of a canvas image that has no hash.
+ *
+ * - `unsupported`: the browser has no 2D canvas or doesn't allow reading it back.
+ * - `unstable`: two renderings of the same image differ, e.g. because of randomization.
+ *
+ * @typedef {string} SpecialCanvasImage
+ */
+export type SpecialCanvasImage = 'unsupported' | 'unstable';
+
+/**
+ * The canvas 2D rendering fingerprint.
+ *
+ * @typedef {Object} CanvasFingerprint
+ * @property {boolean} winding - Whether the canvas supports the `evenodd` fill rule.
+ * @property {string} geometry - Hash of the geometry image pixels, or a special state.
+ * @property {string} text - Hash of the text and emoji image pixels, or a special state.
+ *
+ * @example
+ * ```typescript
+ * const canvas: CanvasFingerprint = {
+ *   winding: true,
+ *   geometry: '1f2e3d4c5b6a7988',
+ *   text: 'unstable',
+ * };
+ * ```
+ */
+export type CanvasFingerprint = {
+  winding: boolean;
+  geometry: string | SpecialCanvasImage;
+  text: string | SpecialCanvasImage;
+};
+
+/**
+ * Renders the canvas images and hashes their pixels.
+ *
+ * @returns {CanvasFingerprint} The canvas fingerprint.
+ *
+ * @example
+ * ```typescript
+ * const { geometry, text } = getCanvasFingerprint();
+ * if (geometry === 'unstable') {
+ *   console.log('Canvas readbacks are randomized');
+ * }
+ * ```
+ *
+ * @public
+ */
+export default function getCanvasFingerprint(): CanvasFingerprint {
+  const [canvas, context] = makeCanvasContext();
+  if (!context) {
+    return { winding: false, geometry: 'unsupported', text: 'unsupported' };
+  }
+
+  return {
+    winding: doesSupportWinding(context),
+    text: renderStableImage(canvas, context, renderTextImage),
+    geometry: renderStableImage(canvas, context, renderGeometryImage),
+  };
+}
+
+/**
+ * Creates a canvas with a 2D context.
+ *
+ * @internal
+ * @returns {[HTMLCanvasElement, CanvasRenderingContext2D | null]} The canvas and its context, if available.
+ */
+function makeCanvasContext(): [HTMLCanvasElement, CanvasRenderingContext2D | null] {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  return [canvas, canvas.getContext('2d')];
+}
+
+/**
+ * Checks whether the canvas supports the `evenodd` fill rule.
+ *
+ * @internal
+ * @param {CanvasRenderingContext2D} context - The canvas context.
+ * @returns {boolean} True if a point inside two nested rectangles is outside the `evenodd` path.
+ * @see https://web.archive.org/web/20170825024655/http://blogs.adobe.com/webplatform/2013/01/30/winding-rules-in-canvas/
+ */
+function doesSupportWinding(context: CanvasRenderingContext2D): boolean {
+  context.rect(0, 0, 10, 10);
+  context.rect(2, 2, 6, 6);
+  return !context.isPointInPath(5, 5, 'evenodd');
+}
+
+/**
+ * Renders an image twice and hashes its pixels.
+ *
+ * @internal
+ * @param {HTMLCanvasElement} canvas - The canvas to render on.
+ * @param {CanvasRenderingContext2D} context - The canvas context.
+ * @param {(canvas: HTMLCanvasElement, context: CanvasRenderingContext2D) => void} render - Renders the image.
+ * @returns {string | SpecialCanvasImage} The hash of the pixels, or a special state.
+ */
+function renderStableImage(
+  canvas: HTMLCanvasElement,
+  context: CanvasRenderingContext2D,
+  render: (canvas: HTMLCanvasElement, context: CanvasRenderingContext2D) => void,
+): string | SpecialCanvasImage {
+  const hashes: string[] = [];
+  for (let i = 0; i < 2; i++) {
+    render(canvas, context);
+    const hash = hashCanvasPixels(canvas, context);
+    if (hash === undefined) {
+      return 'unsupported';
+    }
+    hashes.push(hash);
+  }
+  return hashes[0] === hashes[1] ? hashes[0] : 'unstable';
+}
+
+/**
+ * Hashes the pixels of the whole canvas with `stableHash`.
+ *
+ * @internal
+ * @param {HTMLCanvasElement} canvas - The canvas.
+ * @param {CanvasRenderingContext2D} context - The canvas context.
+ * @returns {string | undefined} The hash, or undefined if the canvas can't be read back.
+ */
+function hashCanvasPixels(canvas: HTMLCanvasElement, context: CanvasRenderingContext2D): string | undefined {
+  let data: Uint8ClampedArray;
+  try {
+    data = context.getImageData(0, 0, canvas.width, canvas.height).data;
+  } catch {
+    // Some privacy modes block the readback with a security error
+    return undefined;
+  }
+  return hashPixels(data);
+}
+
+/**
+ * Hashes raw RGBA pixel data with `stableHash`.
+ *
+ * @internal
+ * @param {Uint8Array | Uint8ClampedArray} data - The pixel bytes.
+ * @returns {string} The hash.
+ */
+export function hashPixels(data: Uint8Array | Uint8ClampedArray): string {
+  // `stableHash` works on strings; every byte becomes a character. The chunks keep `apply` within the argument limit.
+  const chunkSize = 8192;
+  let pixels = '';
+  for (let i = 0; i < data.length; i += chunkSize) {
+    pixels += String.fromCharCode.apply(null, Array.from(data.subarray(i, i + chunkSize)));
+  }
+  return stableHash(pixels);
+}
+
+/**
+ * Renders text with an emoji over a colored rectangle. The output depends on the installed fonts
+ * and the text rasterizer (sub-pixel anti-aliasing, hinting, emoji font).
+ *
+ * @internal
+ * @param {HTMLCanvasElement} canvas - The canvas to render on.
+ * @param {CanvasRenderingContext2D} context - The canvas context.
+ */
+function renderTextImage(canvas: HTMLCanvasElement, context: CanvasRenderingContext2D): void {
+  // Resizing clears the canvas and resets the context state
+  canvas.width = 240;
+  canvas.height = 60;
+
+  context.textBaseline = 'alphabetic';
+  context.fillStyle = '#f60';
+  context.fillRect(100, 1, 62, 20);
+
+  context.fillStyle = '#069';
+  // Explicit built-in fonts exclude the effect of the user's font preferences
+  context.font = '11pt "Times New Roman"';
+  // The choice of emojis has a gigantic impact on rendering performance (especially in FF). Some newer emojis
+  // cause it to slow down 50-200 times. There must be no text to the right of the emoji, see
+  // https://github.com/fingerprintjs/fingerprintjs/issues/574 for more details.
+  const printedText = `Cwm fjordbank gly ${String.fromCharCode(55357, 56835) /* 😃 */}`;
+  context.fillText(printedText, 2, 15);
+  context.fillStyle = 'rgba(102, 204, 0, 0.2)';
+  context.font = '18pt Arial';
+  context.fillText(printedText, 4, 45);
+}
+
+/**
+ * Renders overlapping circles with the `multiply` blending mode and a shape filled with the
+ * `evenodd` rule. The output depends on the blending, the anti-aliasing and the GPU.
+ *
+ * @internal
+ * @param {HTMLCanvasElement} canvas - The canvas to render on.
+ * @param {CanvasRenderingContext2D} context - The canvas context.
+ */
+function renderGeometryImage(canvas: HTMLCanvasElement, context: CanvasRenderingContext2D): void {
+  // Resizing clears the canvas and resets the context state
+  canvas.width = 122;
+  canvas.height = 110;
+
+  context.globalCompositeOperation = 'multiply';
+  for (const [color, x, y] of [
+    ['#f2f', 40, 40],
+    ['#2ff', 80, 40],
+    ['#ff2', 60, 80],
+  ] as const) {
+    context.fillStyle = color;
+    context.beginPath();
+    context.arc(x, y, 40, 0, Math.PI * 2, true);
+    context.closePath();
+    context.fill();
+  }
+
+  context.fillStyle = '#f9c';
+  context.beginPath();
+  context.arc(60, 60, 60, 0, Math.PI * 2, true);
+  context.arc(60, 60, 20, 0, Math.PI * 2, true);
+  context.fill('evenodd');
+}
@@ -1,9 +1,10 @@
 /**
  * @fileoverview EME (Encrypted Media Extensions) detection
  * 
- * This module detects support for Encrypted Media Extensions (EME), specifically
- * Widevine DRM technology. EME support can vary based on browser, platform, and
- * security context.
+ * This module detects support for Encrypted Media Extensions (EME): which DRM key systems
+ * (Widevine, PlayReady, FairPlay, ClearKey) the browser offers, the Widevine robustness
+ * levels, and whether the key systems support persistent licenses and use a distinctive
+ * identifier. EME support can vary based on browser, platform, hardware and security context.
  * 
  * The detection is designed to be non-blocking and fail gracefully in restricted
  * environments such as:
@@ -15,44 +16,117 @@
  * @module sources/eme
  */
 
+/**
+ * Name of a probed EME key system.
+ * 
+ * @typedef {string} KeySystemName
+ */
+export type KeySystemName = "widevine" | "playready" | "fairplay" | "clearkey";
+
+/**
+ * Support of a single key system.
+ * 
+ * @typedef {Object} KeySystemInfo
+ * @property {boolean} supported - Whether the key system accepts the base AVC/AAC configuration.
+ * @property {boolean} [persistentLicense] - Whether the key system supports persistent licenses.
+ * @property {boolean} [distinctiveIdentifier] - Whether the key system uses a distinctive identifier.
+ * @property {string[]} [robustness] - The supported video robustness levels (Widevine only).
+ */
+export type KeySystemInfo = {
+  supported: boolean;
+  persistentLicense?: boolean;
+  distinctiveIdentifier?: boolean;
+  robustness?: string[];
+};
+
 /**
  * Information about EME (Encrypted Media Extensions) support.
  * 
  * @typedef {Object} EmeInfo
  * @property {boolean} [widevineSupported] - Whether Widevine DRM is supported.
  *   Undefined if detection was not possible or inconclusive.
+ * @property {Partial<Record<KeySystemName, KeySystemInfo>>} [keySystems] - Support of every probed key system.
+ *   Undefined if detection was not possible or inconclusive.
  * 
  * @example
  * ```typescript
- * const emeInfo: EmeInfo = { widevineSupported: true };
+ * const emeInfo: EmeInfo = {
+ *   widevineSupported: true,
+ *   keySystems: {
+ *     widevine: {
+ *       supported: true,
+ *       persistentLicense: false,
+ *       distinctiveIdentifier: false,
+ *       robustness: ['SW_SECURE_CRYPTO', 'SW_SECURE_DECODE'],
+ *     },
+ *     playready: { supported: false },
+ *     fairplay: { supported: false },
+ *     clearkey: { supported: true, persistentLicense: false, distinctiveIdentifier: false },
+ *   },
+ * };
  * const unknownInfo: EmeInfo = {}; // Detection failed or unavailable
  * ```
  */
-export type EmeInfo = { widevineSupported?: boolean };
+export type EmeInfo = {
+  widevineSupported?: boolean;
+  keySystems?: Partial<Record<KeySystemName, KeySystemInfo>>;
+};
 
 /**
- * Detects EME (Encrypted Media Extensions) support for Widevine.
- * Returns `{ widevineSupported: boolean }` when a definitive answer is available,
+ * The probed key systems. Each key system tries its identifiers in order.
+ * @internal
+ */
+const keySystems: ReadonlyArray<readonly [KeySystemName, ReadonlyArray<string>]> = [
+  ["widevine", ["com.widevine.alpha"]],
+  ["playready", ["com.microsoft.playready.recommendation", "com.microsoft.playready"]],
+  ["fairplay", ["com.apple.fps", "com.apple.fps.1_0"]],
+  ["clearkey", ["org.w3.clearkey"]],
+];
+
+/**
+ * The Widevine video robustness levels, from the least to the most secure.
+ * @internal
+ */
+const widevineRobustness = [
+  "SW_SECURE_CRYPTO",
+  "SW_SECURE_DECODE",
+  "HW_SECURE_CRYPTO",
+  "HW_SECURE_DECODE",
+  "HW_SECURE_ALL",
+];
+
+const audioContentType = 'audio/mp4; codecs="mp4a.40.2"';
+const videoContentType = 'video/mp4; codecs="avc1.42E01E"';
+
+/**
+ * Detects EME (Encrypted Media Extensions) support.
+ * Returns the support of every probed key system when a definitive answer is available,
  * otherwise returns `{}`.
  *
- * This function attempts to request access to the Widevine media key system.
+ * This function requests access to the Widevine, PlayReady, FairPlay and ClearKey key systems
+ * with a base AVC/AAC configuration, then probes the persistent license support and, for
+ * Widevine, the robustness levels. All the probes run concurrently.
  * It handles various edge cases:
  * - Checks Permissions Policy to avoid probing when EME is disabled
  * - Skips detection in non-secure contexts (HTTP)
  * - Gracefully handles environments where EME APIs are unavailable
  * 
+ * Unexpected errors are not swallowed; they are reported in the `eme` component.
+ * 
  * Notes:
  * - Some environments (iframes with Permissions Policy, privacy extensions, disabled CDM)
  *   can cause the EME probe to be slow or unreliable. The caller wraps this with a soft
  *   timeout to avoid blocking overall signal collection.
+ * - The distinctive identifier is only read from the granted configuration, never required,
+ *   because requiring it can show a permission prompt (e.g. on Android).
  * 
  * @returns {Promise<EmeInfo>} A promise resolving to EME support information.
  * 
  * @example
  * ```typescript
  * const emeInfo = await getEmeInfo();
- * if (emeInfo.widevineSupported !== undefined) {
- *   console.log('Widevine supported:', emeInfo.widevineSupported);
+ * if (emeInfo.keySystems) {
+ *   console.log('Widevine robustness:', emeInfo.keySystems.widevine?.robustness);
  * } else {
  *   console.log('EME detection unavailable');
  * }
@@ -61,45 +135,105 @@ export type EmeInfo = { widevineSupported?: boolean };
  * @public
  */
 export default async function getEmeInfo(): Promise<EmeInfo> {
+  // If the page is not allowed to use EME by Permissions Policy, short-circuit.
   try {
-    // If the page is not allowed to use EME by Permissions Policy, short-circuit.
-    try {
-      const doc: any = document as any;
-      const policy = (doc && (doc.permissionsPolicy || doc.featurePolicy)) as any;
-      if (policy && typeof policy.allowsFeature === "function") {
-        if (policy.allowsFeature && policy.allowsFeature("encrypted-media") === false) {
-          return {};
-        }
-      }
-    } catch {}
-    // Non-secure contexts and some embedded contexts may not reliably answer; avoid probing.
-    try {
-      const w: any = window as any;
-      if (typeof w?.isSecureContext === "boolean" && w.isSecureContext === false) {
+    const doc: any = document as any;
+    const policy = (doc && (doc.permissionsPolicy || doc.featurePolicy)) as any;
+    if (policy && typeof policy.allowsFeature === "function") {
+      if (policy.allowsFeature && policy.allowsFeature("encrypted-media") === false) {
         return {};
       }
-    } catch {}
+    }
+  } catch {}
+  // Non-secure contexts and some embedded contexts may not reliably answer; avoid probing.
+  try {
+    const w: any = window as any;
+    if (typeof w?.isSecureContext === "boolean" && w.isSecureContext === false) {
+      return {};
+    }
+  } catch {}
 
-    const nav: any = navigator as any;
-    const req = nav?.requestMediaKeySystemAccess;
-    if (typeof req !== "function") return {};
-    const keySystem = "com.widevine.alpha";
-    const config = [
-      {
-        initDataTypes: ["cenc"],
-        audioCapabilities: [{ contentType: 'audio/mp4; codecs="mp4a.40.2"' }],
-        videoCapabilities: [{ contentType: 'video/mp4; codecs="avc1.42E01E"' }],
-      },
-    ];
-    try {
-      await nav.requestMediaKeySystemAccess(keySystem, config as any);
-      return { widevineSupported: true };
-    } catch {
-      return { widevineSupported: false };
+  const nav: any = navigator as any;
+  const req = nav?.requestMediaKeySystemAccess;
+  if (typeof req !== "function") return {};
+
+  const results = await Promise.all(
+    keySystems.map(async ([name, ids]) => [name, await probeKeySystem(ids)] as const),
+  );
+  const info: Partial<Record<KeySystemName, KeySystemInfo>> = {};
+  for (const [name, keySystemInfo] of results) {
+    info[name] = keySystemInfo;
+  }
+  return { widevineSupported: !!info.widevine?.supported, keySystems: info };
+}
+
+/**
+ * Probes a key system under its first identifier that accepts the base configuration.
+ * 
+ * @internal
+ * @param {ReadonlyArray<string>} ids - The key system identifiers, in preference order.
+ * @returns {Promise<KeySystemInfo>} The key system support.
+ */
+async function probeKeySystem(ids: ReadonlyArray<string>): Promise<KeySystemInfo> {
+  for (const id of ids) {
+    const access = await requestAccess(id, {});
+    if (!access) {
+      continue;
     }
-  } catch {
-    return {};
+
+    const configuration = typeof access.getConfiguration === "function" ? access.getConfiguration() : {};
+    const [persistentLicense, robustness] = await Promise.all([
+      requestAccess(id, { sessionTypes: ["persistent-license"], persistentState: "required" }).then(Boolean),
+      id === "com.widevine.alpha" ? getSupportedRobustness(id) : undefined,
+    ]);
+    return {
+      supported: true,
+      persistentLicense,
+      distinctiveIdentifier: configuration.distinctiveIdentifier === "required",
+      robustness,
+    };
   }
+  return { supported: false };
 }
 
+/**
+ * Tells which Widevine video robustness levels are supported.
+ * 
+ * @internal
+ * @param {string} id - The key system identifier.
+ * @returns {Promise<string[]>} The supported robustness levels, from the least to the most secure.
+ */
+async function getSupportedRobustness(id: string): Promise<string[]> {
+  const accesses = await Promise.all(
+    widevineRobustness.map((robustness) =>
+      requestAccess(id, { videoCapabilities: [{ contentType: videoContentType, robustness }] }),
+    ),
+  );
+  return widevineRobustness.filter((_robustness, index) => accesses[index]);
+}
 
+/**
+ * Requests access to a key system with the base AVC/AAC configuration, overridden by the given members.
+ * 
+ * @internal
+ * @param {string} id - The key system identifier.
+ * @param {Record<string, unknown>} overrides - Members replacing those of the base configuration.
+ * @returns {Promise<any>} The `MediaKeySystemAccess`, or undefined if the configuration is rejected.
+ */
+async function requestAccess(id: string, overrides: Record<string, unknown>): Promise<any> {
+  const config = [
+    {
+      // FairPlay uses its own initialization data types
+      initDataTypes: ["cenc", "sinf", "skd"],
+      audioCapabilities: [{ contentType: audioContentType }],
+      videoCapabilities: [{ contentType: videoContentType }],
+      distinctiveIdentifier: "optional",
+      ...overrides,
+    },
+  ];
+  try {
+    return await (navigator as any).requestMediaKeySystemAccess(id, config);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Font availability detection
+ *
+ * This module tells which fonts of a curated list are installed. The installed fonts depend
+ * on the operating system, its version, its language packs and the installed software, so they
+ * carry OS and locale information even when WebGL is unavailable or masked.
+ *
+ * A font is detected by rendering a test string with the font, falling back to a generic
+ * family, in a hidden iframe: when the size of the text differs from the size in the generic
+ * family alone, the font is installed. The iframe keeps the page styles from affecting the
+ * measurement.
+ *
+ * @module sources/fonts
+ */
+
+import { stableHash } from '../hash';
+import { withIframe } from '../utils/dom';
+
+/**
+ * The installed fonts.
+ *
+ * @typedef {Object} FontsInfo
+ * @property {string[]} available - The installed fonts of the curated list, in the list order.
+ * @property {string} hash - Hash of the installed fonts list.
+ *
+ * @example
+ * ```typescript
+ * const fonts: FontsInfo = {
+ *   available: ['Calibri', 'Segoe UI Light', 'MS UI Gothic'],
+ *   hash: '3c5d7e9f1a2b4c6d',
+ * };
+ * ```
+ */
+export type FontsInfo = {
+  available: string[];
+  hash: string;
+};
+
+/**
+ * The text is measured in these generic families. A font is installed if the text size
+ * differs from at least one of them when the font is requested with the family as a fallback.
+ * @internal
+ */
+const baseFonts = ['monospace', 'sans-serif', 'serif'] as const;
+
+/**
+ * The fonts to detect, chosen to tell apart operating systems, their versions and locales.
+ * Fonts that ship with every OS (e.g. Arial) carry no information and are left out.
+ * @internal
+ */
+const fontList = [
+  // Windows versions and Office
+  'Calibri',
+  'Cambria Math',
+  'Segoe UI Light',
+  'Segoe UI Emoji',
+  'Segoe Fluent Icons',
+  'Bahnschrift',
+  'Leelawadee',
+  'Marlett',
+  'MS Outlook',
+  'MS Reference Specialty',
+  'MT Extra',
+  'Haettenschweiler',
+  'Franklin Gothic',
+  // Windows language packs
+  'Arabic Typesetting',
+  'Microsoft Uighur',
+  'Vrinda',
+  'Levenim MT',
+  // macOS versions
+  'Helvetica Neue',
+  'Menlo',
+  'Avenir Next',
+  'SF Compact',
+  'Apple SD Gothic Neo',
+  'PingFang SC',
+  // Linux distributions
+  'Ubuntu',
+  'DejaVu Sans',
+  'Liberation Sans',
+  'Noto Color Emoji',
+  'Cantarell',
+  // Android
+  'Roboto',
+  'Droid Sans',
+  // CJK locales
+  'MS Mincho',
+  'MS UI Gothic',
+  'Meiryo UI',
+  'PMingLiU',
+  'SimHei',
+  'Batang',
+  // Commonly installed software (Adobe, design tools)
+  'Minion Pro',
+  'MYRIAD PRO',
+  'TRAJAN PRO',
+  'ZWAdobeF',
+  'Futura Md BT',
+  'Gill Sans',
+];
+
+/**
+ * The test string: wide and narrow glyphs make the size differ between fonts.
+ * @internal
+ */
+const testString = 'mmMwWLliI0O&1';
+
+/**
+ * Large text makes small glyph differences measurable.
+ * @internal
+ */
+const textSize = '48px';
+
+/**
+ * Detects which fonts of the curated list are installed.
+ *
+ * @returns {Promise<FontsInfo>} The installed fonts and their hash.
+ *
+ * @example
+ * ```typescript
+ * const { available } = await getFonts();
+ * console.log('Installed fonts:', available);
+ * ```
+ *
+ * @public
+ */
+export default function getFonts(): Promise<FontsInfo> {
+  return withIframe((_, { document }) => {
+    const holder = document.body;
+    holder.style.fontSize = textSize;
+
+    // The spans are measured after they are all added, so that the layout is computed only once
+    const createSpan = (fontFamily: string) => {
+      const span = document.createElement('span');
+      const { style } = span;
+      style.position = 'absolute';
+      style.top = '0';
+      style.left = '0';
+      style.fontFamily = fontFamily;
+      span.textContent = testString;
+      holder.appendChild(span);
+      return span;
+    };
+
+    const baseSpans = baseFonts.map((baseFont) => createSpan(baseFont));
+    const fontSpans = fontList.map((font) => baseFonts.map((baseFont) => createSpan(`'${font}',${baseFont}`)));
+
+    const baseSizes = baseSpans.map(({ offsetWidth, offsetHeight }) => [offsetWidth, offsetHeight]);
+    const available = fontList.filter((_font, fontIndex) =>
+      fontSpans[fontIndex].some(
+        ({ offsetWidth, offsetHeight }, baseIndex) =>
+          offsetWidth !== baseSizes[baseIndex][0] || offsetHeight !== baseSizes[baseIndex][1],
+      ),
+    );
+
+    return { available, hash: stableHash(available) };
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Media codec and decoding capability detection
+ *
+ * This module tells which audio and video codecs of a fixed list the browser can play, and whether
+ * their decoding is smooth and power efficient. Hardware decoding (AV1, HEVC, Dolby Vision) depends
+ * on the GPU and the operating system, and the licensed codecs (HEVC, Dolby audio) depend on the OS
+ * and the browser build, so the results complement the GPU and EME anchor components.
+ *
+ * Each codec is checked with `MediaSource.isTypeSupported`, `HTMLMediaElement.canPlayType`
+ * and `navigator.mediaCapabilities.decodingInfo`.
+ *
+ * @module sources/mediaCodecs
+ */
+
+/**
+ * Name of a checked codec.
+ *
+ * @typedef {string} MediaCodecName
+ */
+export type MediaCodecName =
+  | 'h264'
+  | 'hevc'
+  | 'vp9'
+  | 'av1'
+  | 'dolbyVision'
+  | 'aac'
+  | 'opus'
+  | 'flac'
+  | 'ac3'
+  | 'eac3'
+  | 'ac4';
+
+/**
+ * Support of a single codec.
+ *
+ * @typedef {Object} MediaCodecSupport
+ * @property {boolean} [mediaSource] - `MediaSource.isTypeSupported` result. Undefined without Media Source Extensions.
+ * @property {string} canPlayType - `HTMLMediaElement.canPlayType` result: `''`, `'maybe'` or `'probably'`.
+ * @property {boolean} [supported] - Whether `mediaCapabilities.decodingInfo` reports the configuration as supported.
+ * @property {boolean} [smooth] - Whether the playback is expected to be smooth.
+ * @property {boolean} [powerEfficient] - Whether the playback is expected to be power efficient
+ *   (usually hardware decoding).
+ */
+export type MediaCodecSupport = {
+  mediaSource?: boolean;
+  canPlayType: string;
+  supported?: boolean;
+  smooth?: boolean;
+  powerEfficient?: boolean;
+};
+
+/**
+ * The support of every checked codec.
+ *
+ * @typedef {Object} MediaCodecsInfo
+ *
+ * @example
+ * ```typescript
+ * const mediaCodecs: MediaCodecsInfo = {
+ *   av1: { mediaSource: true, canPlayType: 'probably', supported: true, smooth: true, powerEfficient: false },
+ *   hevc: { mediaSource: false, canPlayType: '', supported: false, smooth: false, powerEfficient: false },
+ *   // ...
+ * };
+ * ```
+ */
+export type MediaCodecsInfo = Partial<Record<MediaCodecName, MediaCodecSupport>>;
+
+/**
+ * Kind of media a codec encodes.
+ * @internal
+ */
+type MediaKind = 'audio' | 'video';
+
+/**
+ * The checked codecs, with their kind and MIME type.
+ * @internal
+ */
+const codecs: ReadonlyArray<readonly [MediaCodecName, MediaKind, string]> = [
+  ['h264', 'video', 'video/mp4; codecs="avc1.640028"'],
+  ['hevc', 'video', 'video/mp4; codecs="hvc1.1.6.L123.B0"'],
+  ['vp9', 'video', 'video/webm; codecs="vp09.00.10.08"'],
+  ['av1', 'video', 'video/mp4; codecs="av01.0.08M.08"'],
+  ['dolbyVision', 'video', 'video/mp4; codecs="dvh1.05.06"'],
+  ['aac', 'audio', 'audio/mp4; codecs="mp4a.40.2"'],
+  ['opus', 'audio', 'audio/webm; codecs="opus"'],
+  ['flac', 'audio', 'audio/mp4; codecs="flac"'],
+  ['ac3', 'audio', 'audio/mp4; codecs="ac-3"'],
+  ['eac3', 'audio', 'audio/mp4; codecs="ec-3"'],
+  ['ac4', 'audio', 'audio/mp4; codecs="ac-4"'],
+];
+
+/**
+ * The stream characteristics passed to `decodingInfo`: a 1080p video stream and a stereo audio stream.
+ * @internal
+ */
+const videoConfiguration = { width: 1920, height: 1080, bitrate: 4000000, framerate: 30 };
+const audioConfiguration = { channels: '2', bitrate: 128000, samplerate: 48000 };
+
+/**
+ * Checks the support of the codecs and the characteristics of their decoding.
+ *
+ * The `decodingInfo` queries run concurrently. A codec whose MIME type `decodingInfo` rejects
+ * has no decoding flags.
+ *
+ * @returns {Promise<MediaCodecsInfo>} The support of every checked codec.
+ *
+ * @example
+ * ```typescript
+ * const mediaCodecs = await getMediaCodecs();
+ * if (mediaCodecs.av1?.powerEfficient) {
+ *   console.log('AV1 is decoded in hardware');
+ * }
+ * ```
+ *
+ * @public
+ */
+export default async function getMediaCodecs(): Promise<MediaCodecsInfo> {
+  const elements: Record<MediaKind, HTMLMediaElement> = {
+    audio: document.createElement('audio'),
+    video: document.createElement('video'),
+  };
+
+  const results = await Promise.all(
+    codecs.map(async ([name, kind, contentType]) => {
+      const support: MediaCodecSupport = {
+        mediaSource: isMediaSourceTypeSupported(contentType),
+        canPlayType: elements[kind].canPlayType(contentType),
+        ...(await getDecodingInfo(kind, contentType)),
+      };
+      return [name, support] as const;
+    }),
+  );
+
+  const info: MediaCodecsInfo = {};
+  for (const [name, support] of results) {
+    info[name] = support;
+  }
+  return info;
+}
+
+/**
+ * Checks a MIME type with Media Source Extensions.
+ *
+ * @internal
+ * @param {string} contentType - The MIME type.
+ * @returns {boolean | undefined} The `isTypeSupported` result, or undefined without Media Source Extensions.
+ */
+function isMediaSourceTypeSupported(contentType: string): boolean | undefined {
+  // Safari on iPhone has no `MediaSource`. iOS 17.1 added `ManagedMediaSource`, a separate API with the same
+  // `isTypeSupported`; before it, there are no Media Source Extensions at all.
+  const MediaSourceClass =
+    window.MediaSource ?? (window as Window & { ManagedMediaSource?: typeof MediaSource }).ManagedMediaSource;
+  if (typeof MediaSourceClass?.isTypeSupported !== 'function') {
+    return undefined;
+  }
+  return MediaSourceClass.isTypeSupported(contentType);
+}
+
+/**
+ * Queries the decoding characteristics of a MIME type with the Media Capabilities API.
+ *
+ * @internal
+ * @param {MediaKind} kind - Whether the MIME type is an audio or a video type.
+ * @param {string} contentType - The MIME type.
+ * @returns {Promise<Pick<MediaCodecSupport, 'supported' | 'smooth' | 'powerEfficient'>>} The decoding flags,
+ *   or no flags when the API is unavailable or rejects the MIME type.
+ */
+async function getDecodingInfo(
+  kind: MediaKind,
+  contentType: string,
+): Promise<Pick<MediaCodecSupport, 'supported' | 'smooth' | 'powerEfficient'>> {
+  const mediaCapabilities = navigator.mediaCapabilities;
+  if (typeof mediaCapabilities?.decodingInfo !== 'function') {
+    return {};
+  }
+
+  try {
+    const { supported, smooth, powerEfficient } = await mediaCapabilities.decodingInfo({
+      type: 'media-source',
+      ...(kind === 'video'
+        ? { video: { contentType, ...videoConfiguration } }
+        : { audio: { contentType, ...audioConfiguration } }),
+    });
+    return { supported, smooth, powerEfficient };
+  } catch {
+    // Browsers reject the MIME types they can't parse with a TypeError
+    return {};
+  }
+}
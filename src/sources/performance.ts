@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Performance timing precision detection
+ * 
+ * This module measures the resolution of the browser's `performance.now()` clock.
+ * Browsers coarsen the clock differently (and more aggressively in privacy modes or
+ * cross-origin isolated contexts), which makes the precision a useful device signal.
+ * 
+ * @module sources/performance
+ */
+
+import type { PerformanceTimingInfo } from '../types';
+import { mapWithBreaks, wait } from '../utils/async';
+
+const chunkCount = 50;
+const iterationsPerChunk = 1000;
+
+/**
+ * How long to wait for a clamped clock to tick when it didn't during the measurement, in milliseconds.
+ * Covers the 100 ms steps of older `resistFingerprinting` versions.
+ * @internal
+ */
+const clockStepTimeout = 250;
+
+/**
+ * Measures the precision and baseline characteristics of the browser's
+ * performance.now() implementation.
+ * 
+ * Different browsers and configurations have different timing precision levels,
+ * which can serve as a fingerprinting signal. This function runs a large number
+ * of iterations to detect the minimum timing resolution. The iterations are split
+ * into chunks, and the event loop is released between the chunks so that the
+ * measurement doesn't block the main thread.
+ * 
+ * `precision` and `baseline` are capped at 1 ms. `resolution` is the actual smallest step, which
+ * tells apart the clocks that are clamped to coarser steps (e.g. 16.67 ms or 100 ms).
+ * 
+ * @returns {Promise<PerformanceTimingInfo | undefined>} Timing precision data, or undefined if unavailable.
+ * 
+ * @example
+ * ```typescript
+ * const timing = await getPerformanceTiming();
+ * // { precision: 0.1, baseline: 0.2, resolution: 0.1 }
+ * ```
+ * 
+ * @public
+ */
+export default async function getPerformanceTiming(): Promise<PerformanceTimingInfo | undefined> {
+  const w = typeof window !== 'undefined' ? (window as any) : undefined;
+  if (!w?.performance?.now) return undefined;
+
+  let min = 1;
+  let max = 1;
+  let resolution = Infinity;
+
+  await mapWithBreaks(Array<void>(chunkCount).fill(undefined), () => {
+    // Starts each chunk from a fresh reading, so that the time spent in the released event loop isn't measured
+    let prev = w.performance.now();
+    let curr = prev;
+
+    for (let i = 0; i < iterationsPerChunk; i++) {
+      prev = curr;
+      curr = w.performance.now();
+      if (prev < curr) {
+        const diff = curr - prev;
+        if (diff < resolution) resolution = diff;
+        if (diff > min) {
+          if (diff < max) max = diff;
+        } else if (diff < min) {
+          max = min;
+          min = diff;
+        }
+      }
+    }
+  });
+
+  // A clamped clock may not tick during the measurement, which is shorter than its step
+  return { precision: min, baseline: max, resolution: resolution < Infinity ? resolution : await waitForClockStep(w) };
+}
+
+/**
+ * Measures the step of a coarse clock by polling it until it ticks. The polling interval is
+ * shorter than the step, so the first change is a single step.
+ * 
+ * @internal
+ * @param {any} w - The window.
+ * @returns {Promise<number | undefined>} The clock step in milliseconds, or undefined if the clock
+ *   doesn't tick in time.
+ */
+async function waitForClockStep(w: any): Promise<number | undefined> {
+  const start = w.performance.now();
+  const deadline = Date.now() + clockStepTimeout;
+  while (Date.now() < deadline) {
+    await wait(1);
+    const now = w.performance.now();
+    if (now > start) return now - start;
+  }
+  return undefined;
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Notification permission state detection
+ *
+ * This module reads the notification permission twice: from `Notification.permission` and from
+ * the Permissions API. The two agree in regular browsers, while headless Chrome reports the
+ * permission as denied by the former and as not asked yet by the latter, which the bot detector
+ * uses as an automation indicator.
+ *
+ * @module sources/permissions
+ */
+
+/**
+ * The notification permission as reported by both APIs.
+ *
+ * @typedef {Object} NotificationPermissionsInfo
+ * @property {NotificationPermission} permission - `Notification.permission`: `default`, `denied` or `granted`.
+ * @property {PermissionState} [state] - The Permissions API state: `prompt`, `denied` or `granted`.
+ *   Undefined when the browser can't query the notifications permission.
+ *
+ * @example
+ * ```typescript
+ * const notificationPermissions: NotificationPermissionsInfo = { permission: 'denied', state: 'prompt' };
+ * ```
+ */
+export type NotificationPermissionsInfo = {
+  permission: NotificationPermission;
+  state?: PermissionState;
+};
+
+/**
+ * Reads the notification permission from `Notification.permission` and the Permissions API.
+ *
+ * @returns {Promise<NotificationPermissionsInfo | undefined>} The permission states, or undefined
+ *   without the Notifications API.
+ *
+ * @example
+ * ```typescript
+ * const permissions = await getNotificationPermissions();
+ * console.log('Notifications:', permissions?.permission);
+ * ```
+ *
+ * @public
+ */
+export default async function getNotificationPermissions(): Promise<NotificationPermissionsInfo | undefined> {
+  if (typeof Notification === 'undefined') {
+    return undefined;
+  }
+
+  const { permission } = Notification;
+  const { permissions } = navigator;
+  if (!permissions?.query) {
+    return { permission };
+  }
+
+  try {
+    const { state } = await permissions.query({ name: 'notifications' });
+    return { permission, state };
+  } catch {
+    // Some browsers don't support querying the notifications permission
+    return { permission };
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Speech synthesis voices detection
+ *
+ * This module lists the speech synthesis voices. The local voices are installed with the
+ * operating system and its language packs, so the list is specific to the OS, its version and
+ * its locales, and it doesn't change with browser updates. The remote voices tell the browser
+ * vendor apart (e.g. the Google voices of Chrome).
+ *
+ * Browsers load the voices asynchronously: the list may be empty until the `voiceschanged`
+ * event fires, so the source waits for the event, with a timeout. An empty list tells nothing
+ * about the device, so no voices are reported when none load.
+ *
+ * @module sources/voices
+ */
+
+import { normalizeString, stableHash } from '../hash';
+import { wait } from '../utils/async';
+
+/**
+ * The speech synthesis voices.
+ *
+ * @typedef {Object} VoicesInfo
+ * @property {string[]} voices - The normalized voices as `name|lang|local` or `name|lang|remote`,
+ *   sorted and deduplicated.
+ * @property {string} hash - Hash of the voices list.
+ *
+ * @example
+ * ```typescript
+ * const voices: VoicesInfo = {
+ *   voices: ['microsoft david - english (united states)|en-us|local', 'google deutsch|de-de|remote'],
+ *   hash: '2b4d6f8a0c1e3a5c',
+ * };
+ * ```
+ */
+export type VoicesInfo = {
+  voices: string[];
+  hash: string;
+};
+
+/**
+ * How long to wait for the `voiceschanged` event when the voices aren't loaded yet, in milliseconds.
+ * @internal
+ */
+const voicesTimeout = 600;
+
+/**
+ * Lists the speech synthesis voices, waiting for them to load when needed.
+ *
+ * @returns {Promise<VoicesInfo | undefined>} The voices and their hash, or undefined without speech
+ *   synthesis or when no voices load in time.
+ *
+ * @example
+ * ```typescript
+ * const info = await getVoices();
+ * console.log('Installed voices:', info?.voices.length ?? 'none');
+ * ```
+ *
+ * @public
+ */
+export default async function getVoices(): Promise<VoicesInfo | undefined> {
+  const synthesis = typeof speechSynthesis !== 'undefined' ? speechSynthesis : undefined;
+  const voices = synthesis && typeof synthesis.getVoices === 'function' ? await loadVoices(synthesis) : [];
+  if (!voices.length) {
+    return undefined;
+  }
+
+  const normalized = new Set<string>();
+  for (const { name, lang, localService } of voices) {
+    const service = localService ? 'local' : 'remote';
+    normalized.add(`${normalizeString(name) ?? ''}|${normalizeString(lang) ?? ''}|${service}`);
+  }
+  const sorted = [...normalized].sort();
+  return { voices: sorted, hash: stableHash(sorted) };
+}
+
+/**
+ * Gets the voices, waiting for the `voiceschanged` event if the list is empty.
+ *
+ * @internal
+ * @param {SpeechSynthesis} synthesis - The speech synthesis controller.
+ * @returns {Promise<SpeechSynthesisVoice[]>} The voices; empty if they don't load in time.
+ */
+async function loadVoices(synthesis: SpeechSynthesis): Promise<SpeechSynthesisVoice[]> {
+  const voices = synthesis.getVoices();
+  if (voices.length || typeof synthesis.addEventListener !== 'function') {
+    return voices;
+  }
+
+  let onVoicesChanged: (() => void) | undefined;
+  try {
+    await Promise.race([
+      new Promise<void>((resolve) => {
+        onVoicesChanged = resolve;
+        synthesis.addEventListener('voiceschanged', onVoicesChanged);
+      }),
+      wait(voicesTimeout),
+    ]);
+  } finally {
+    if (onVoicesChanged) {
+      synthesis.removeEventListener('voiceschanged', onVoicesChanged);
+    }
+  }
+  return synthesis.getVoices();
+}
@@ -7,7 +7,8 @@
  * valuable for device fingerprinting.
  * 
  * The module provides both basic WebGL information (version, vendor, renderer) and
- * extensive details about supported extensions and parameters.
+ * extensive details about supported extensions and parameters, for WebGL 1 and for WebGL2
+ * (whose limits and extension set differ from WebGL 1 on the same device).
  * 
  * @module sources/webgl
  * @see https://www.khronos.org/webgl/
@@ -88,6 +89,12 @@ export type WebGlExtensionsPayload = {
  */
 type CanvasContext = WebGLRenderingContext & { readonly canvas: HTMLCanvasElement }
 
+/**
+ * WebGL2 rendering context with canvas reference.
+ * @internal
+ */
+type CanvasContext2 = WebGL2RenderingContext & { readonly canvas: HTMLCanvasElement }
+
 /**
  * Options for WebGL collection functions, including a cache for reusing contexts.
  * @internal
@@ -97,9 +104,20 @@ type Options = {
     webgl?: {
       context: CanvasContext | undefined
     }
+    webgl2?: {
+      context: CanvasContext2 | undefined
+    }
   }
 }
 
+/**
+ * Cache shared by the WebGL collection functions, so that they reuse a single WebGL context
+ * (and a single WebGL2 context).
+ * 
+ * @typedef {Object} WebGlCache
+ */
+export type WebGlCache = Options['cache']
+
 /**
  * Status code indicating WebGL context is not available.
  * @constant
@@ -127,6 +145,38 @@ const validContextParameters = new Set([
   // SAMPLE_ALPHA_TO_COVERAGE (32926) and SAMPLE_COVERAGE (32928) are excluded because they trigger a console warning
   // in IE, Chrome ≤ 59 and Safari ≤ 13 and give no entropy.
 ])
+// The WebGL2-only limits: 3D and array textures, multisampling, uniform buffers, transform feedback, etc.
+const validContext2Parameters = new Set([
+  ...validContextParameters,
+  32883, // MAX_3D_TEXTURE_SIZE
+  33000, // MAX_ELEMENTS_VERTICES
+  33001, // MAX_ELEMENTS_INDICES
+  34045, // MAX_TEXTURE_LOD_BIAS
+  34852, // MAX_DRAW_BUFFERS
+  35071, // MAX_ARRAY_TEXTURE_LAYERS
+  35076, // MIN_PROGRAM_TEXEL_OFFSET
+  35077, // MAX_PROGRAM_TEXEL_OFFSET
+  35371, // MAX_VERTEX_UNIFORM_BLOCKS
+  35373, // MAX_FRAGMENT_UNIFORM_BLOCKS
+  35374, // MAX_COMBINED_UNIFORM_BLOCKS
+  35375, // MAX_UNIFORM_BUFFER_BINDINGS
+  35376, // MAX_UNIFORM_BLOCK_SIZE
+  35377, // MAX_COMBINED_VERTEX_UNIFORM_COMPONENTS
+  35379, // MAX_COMBINED_FRAGMENT_UNIFORM_COMPONENTS
+  35380, // UNIFORM_BUFFER_OFFSET_ALIGNMENT
+  35657, // MAX_FRAGMENT_UNIFORM_COMPONENTS
+  35658, // MAX_VERTEX_UNIFORM_COMPONENTS
+  35659, // MAX_VARYING_COMPONENTS
+  35968, // MAX_TRANSFORM_FEEDBACK_SEPARATE_COMPONENTS
+  35978, // MAX_TRANSFORM_FEEDBACK_INTERLEAVED_COMPONENTS
+  35979, // MAX_TRANSFORM_FEEDBACK_SEPARATE_ATTRIBS
+  36063, // MAX_COLOR_ATTACHMENTS
+  36183, // MAX_SAMPLES
+  36203, // MAX_ELEMENT_INDEX
+  37137, // MAX_SERVER_WAIT_TIMEOUT
+  37154, // MAX_VERTEX_OUTPUT_COMPONENTS
+  37157, // MAX_FRAGMENT_INPUT_COMPONENTS
+])
 const validExtensionParams = new Set([
   34047, // MAX_TEXTURE_MAX_ANISOTROPY_EXT
   35723, // FRAGMENT_SHADER_DERIVATIVE_HINT_OES
@@ -225,6 +275,56 @@ export function getWebGlExtensions({ cache }: Options): WebGlExtensionsPayload |
     return STATUS_GET_PARAMETER_NOT_A_FUNCTION
   }
 
+  return collectExtensionsPayload(gl, validContextParameters)
+}
+
+/**
+ * Gets the WebGL2 parameters and extensions, in the same shape as `getWebGlExtensions`.
+ * 
+ * WebGL2 exposes limits that WebGL 1 has no parameter for (3D and array texture sizes,
+ * multisampling, uniform buffers, transform feedback) and a different extension set.
+ * The WebGL2 context is separate from the WebGL 1 context, so its collection doesn't change
+ * the WebGL 1 results.
+ * 
+ * @param {Options} options - Configuration including cache for context reuse.
+ * @returns {WebGlExtensionsPayload | SpecialStatus} Detailed WebGL2 info or a status code indicating failure.
+ * 
+ * @example
+ * ```typescript
+ * const cache = {};
+ * const webgl2 = getWebGl2Extensions({ cache });
+ * if (typeof webgl2 !== 'number') {
+ *   console.log('WebGL2 extensions:', webgl2.extensions);
+ * }
+ * ```
+ * 
+ * @public
+ */
+export function getWebGl2Extensions({ cache }: Options): WebGlExtensionsPayload | SpecialStatus {
+  const gl = getWebGL2Context(cache)
+  if (!gl) {
+    return STATUS_NO_GL_CONTEXT
+  }
+
+  if (!isValidParameterGetter(gl)) {
+    return STATUS_GET_PARAMETER_NOT_A_FUNCTION
+  }
+
+  return collectExtensionsPayload(gl, validContext2Parameters)
+}
+
+/**
+ * Collects the context attributes, parameters, extensions and shader precisions of a WebGL or WebGL2 context.
+ * 
+ * @internal
+ * @param {WebGLRenderingContext | WebGL2RenderingContext} gl - WebGL rendering context.
+ * @param {Set<number>} contextParameters - The parameter codes whose values are read.
+ * @returns {WebGlExtensionsPayload} Detailed WebGL info.
+ */
+function collectExtensionsPayload(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  contextParameters: Set<number>,
+): WebGlExtensionsPayload {
   const extensions = gl.getSupportedExtensions()
   const contextAttributes = gl.getContextAttributes()
   const unsupportedExtensions: string[] = []
@@ -246,7 +346,7 @@ export function getWebGlExtensions({ cache }: Options): WebGlExtensionsPayload |
   const constants = getConstantsFromPrototype(gl)
   for (const constant of constants) {
     const code = gl[constant] as number
-    parameters.push(`${constant}=${code}${validContextParameters.has(code) ? `=${gl.getParameter(code)}` : ''}`)
+    parameters.push(`${constant}=${code}${contextParameters.has(code) ? `=${gl.getParameter(code)}` : ''}`)
   }
 
   // Extension parameters
@@ -345,6 +445,70 @@ export function getWebGLContext(cache: Options['cache']) {
   return context
 }
 
+/**
+ * Creates or retrieves a cached WebGL2 rendering context.
+ * 
+ * WebGL2 has no experimental context type, and a browser may support WebGL 1 only.
+ * 
+ * @param {Options['cache']} cache - Cache object to store and reuse the WebGL2 context.
+ * @returns {CanvasContext2 | undefined} WebGL2 context or undefined if unavailable.
+ * 
+ * @warning This function is out of Semantic Versioning, i.e. can change unexpectedly. Usage is at your own risk.
+ * @public
+ */
+export function getWebGL2Context(cache: Options['cache']) {
+  if (cache.webgl2) {
+    return cache.webgl2.context
+  }
+
+  const canvas = document.createElement('canvas')
+  let context: CanvasContext2 | undefined
+
+  canvas.addEventListener('webglCreateContextError', () => (context = undefined))
+
+  try {
+    context = (canvas.getContext('webgl2') as CanvasContext2 | null) ?? undefined
+  } catch {
+    // Ok, WebGL2 is unavailable
+  }
+
+  cache.webgl2 = { context }
+  return context
+}
+
+/**
+ * Releases the WebGL and WebGL2 contexts stored in the cache, if any.
+ * 
+ * Browsers limit the number of live WebGL contexts per page, and an abandoned context
+ * keeps its GPU resources until it's garbage collected. This function asks the browser
+ * to drop the context right away and clears the cache.
+ * 
+ * @param {WebGlCache} cache - Cache object the contexts were stored in by `getWebGLContext` and `getWebGL2Context`.
+ * 
+ * @example
+ * ```typescript
+ * const cache = {};
+ * getWebGlBasics({ cache });
+ * getWebGlExtensions({ cache });
+ * releaseWebGLContext(cache);
+ * ```
+ * 
+ * @public
+ */
+export function releaseWebGLContext(cache: WebGlCache): void {
+  const contexts = [cache.webgl?.context, cache.webgl2?.context]
+  cache.webgl = undefined
+  cache.webgl2 = undefined
+
+  for (const context of contexts) {
+    try {
+      context?.getExtension('WEBGL_lose_context')?.loseContext()
+    } catch {
+      // The context is released by the garbage collector anyway
+    }
+  }
+}
+
 /**
  * Gets the precision format for a specific shader type and precision type.
  * 
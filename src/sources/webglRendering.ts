@@ -0,0 +1,258 @@
+/**
+ * @fileoverview WebGL rendering fingerprint
+ *
+ * This module draws a fixed scene with WebGL and hashes the resulting pixels. The scene combines
+ * color gradients, alpha-blended overlapping triangles and precision-sensitive shader math, whose
+ * output depends on the GPU, the driver, the shader compiler and the rasterizer. It tells apart
+ * devices that report identical WebGL parameters and extensions.
+ *
+ * Like the canvas 2D fingerprint, the scene is rendered twice; when the two readbacks differ
+ * (e.g. because noise is injected into `readPixels`), the image is reported as `unstable`
+ * instead of a hash that would change on every page load.
+ *
+ * The scene is drawn with the shared WebGL context (see `getWebGLContext`), whose state is
+ * restored afterwards so that it doesn't affect the parameters read by the other WebGL sources.
+ *
+ * @module sources/webglRendering
+ */
+
+import { hashPixels } from './canvas';
+import { getWebGLContext, STATUS_NO_GL_CONTEXT, type WebGlCache } from './webgl';
+
+/**
+ * The state of a WebGL rendering that has no hash.
+ *
+ * - `unsupported`: the shaders don't compile or the context is lost.
+ * - `unstable`: two renderings of the same scene differ, e.g. because of randomization.
+ *
+ * @typedef {string} SpecialWebGlImage
+ */
+export type SpecialWebGlImage = 'unsupported' | 'unstable';
+
+/**
+ * The WebGL rendering fingerprint: the hash of the scene pixels, or a special state.
+ *
+ * @typedef {string} WebGlRenderingPayload
+ *
+ * @example
+ * ```typescript
+ * const rendering: WebGlRenderingPayload = '7c1e2f3a4b5d6e8f';
+ * ```
+ */
+export type WebGlRenderingPayload = string | SpecialWebGlImage;
+
+/**
+ * Size of the rendered square, in pixels. It fits in the default 300×150 drawing buffer.
+ * @internal
+ */
+const imageSize = 64;
+
+const vertexShaderSource = `
+attribute vec2 position;
+attribute vec4 color;
+varying vec4 vColor;
+varying vec2 vPosition;
+void main() {
+  vColor = color;
+  vPosition = position;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+// The transcendental functions and the large multipliers amplify the differences in
+// floating-point precision and rounding between GPUs
+const fragmentShaderSource = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+varying vec4 vColor;
+varying vec2 vPosition;
+void main() {
+  float wave = sin(vPosition.x * vPosition.y * 47.0) * cos(exp(vPosition.y * 2.3) + atan(vPosition.x, 0.7));
+  float grain = fract(sin(dot(vPosition, vec2(12.9898, 78.233))) * 43758.5453);
+  gl_FragColor = vec4(vColor.rgb * (0.6 + 0.25 * wave + 0.15 * grain), vColor.a);
+}`;
+
+/**
+ * Overlapping triangles as x, y, r, g, b, a vertices. The per-vertex colors make gradients,
+ * and the translucent alpha makes the overlaps blend.
+ * @internal
+ */
+const sceneVertices = [
+  -0.9, -0.9, 1.0, 0.2, 0.1, 0.8, 0.8, -0.7, 0.1, 0.9, 0.3, 0.6, -0.2, 0.9, 0.2, 0.3, 1.0, 0.7, -0.7, 0.6, 0.9, 0.9,
+  0.1, 0.5, 0.9, 0.3, 0.6, 0.1, 0.8, 0.9, 0.1, -0.95, 0.1, 0.8, 0.9, 0.4, -0.95, 0.05, 0.3, 0.3, 0.3, 0.3, 0.95, 0.9,
+  1.0, 0.6, 0.2, 0.7, 0.3, -0.3, 0.0, 0.5, 1.0, 1.0,
+];
+
+const floatsPerVertex = 6;
+
+/**
+ * Draws the scene twice with the shared WebGL context and hashes its pixels.
+ *
+ * @param {{ cache: WebGlCache }} options - Configuration including cache for context reuse.
+ * @returns {WebGlRenderingPayload | typeof STATUS_NO_GL_CONTEXT} The rendering fingerprint, or a status code
+ *   when WebGL is unavailable.
+ *
+ * @example
+ * ```typescript
+ * const rendering = getWebGlRendering({ cache: {} });
+ * if (rendering === 'unstable') {
+ *   console.log('WebGL readbacks are randomized');
+ * }
+ * ```
+ *
+ * @public
+ */
+export function getWebGlRendering({
+  cache,
+}: {
+  cache: WebGlCache;
+}): WebGlRenderingPayload | typeof STATUS_NO_GL_CONTEXT {
+  const gl = getWebGLContext(cache);
+  if (!gl) {
+    return STATUS_NO_GL_CONTEXT;
+  }
+
+  const hashes: string[] = [];
+  for (let i = 0; i < 2; i++) {
+    const pixels = withRestoredState(gl, () => renderScene(gl));
+    if (!pixels) {
+      return 'unsupported';
+    }
+    hashes.push(hashPixels(pixels));
+  }
+  return hashes[0] === hashes[1] ? hashes[0] : 'unstable';
+}
+
+/**
+ * Draws the scene and reads its pixels back.
+ *
+ * @internal
+ * @param {WebGLRenderingContext} gl - The WebGL context.
+ * @returns {Uint8Array | undefined} The RGBA pixels, or undefined if the scene can't be drawn.
+ */
+function renderScene(gl: WebGLRenderingContext): Uint8Array | undefined {
+  const program = makeProgram(gl);
+  const buffer = gl.createBuffer();
+  if (!program || !buffer) {
+    gl.deleteProgram(program);
+    return undefined;
+  }
+
+  try {
+    gl.useProgram(program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(sceneVertices), gl.STATIC_DRAW);
+
+    const stride = floatsPerVertex * Float32Array.BYTES_PER_ELEMENT;
+    const position = gl.getAttribLocation(program, 'position');
+    const color = gl.getAttribLocation(program, 'color');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, stride, 0);
+    gl.enableVertexAttribArray(color);
+    gl.vertexAttribPointer(color, 4, gl.FLOAT, false, stride, 2 * Float32Array.BYTES_PER_ELEMENT);
+
+    gl.viewport(0, 0, imageSize, imageSize);
+    gl.clearColor(0.05, 0.1, 0.15, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    gl.drawArrays(gl.TRIANGLES, 0, sceneVertices.length / floatsPerVertex);
+
+    const pixels = new Uint8Array(imageSize * imageSize * 4);
+    gl.readPixels(0, 0, imageSize, imageSize, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+    gl.disableVertexAttribArray(position);
+    gl.disableVertexAttribArray(color);
+    return gl.isContextLost() ? undefined : pixels;
+  } finally {
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    gl.useProgram(null);
+    gl.deleteBuffer(buffer);
+    gl.deleteProgram(program);
+  }
+}
+
+/**
+ * Compiles and links the scene shaders.
+ *
+ * @internal
+ * @param {WebGLRenderingContext} gl - The WebGL context.
+ * @returns {WebGLProgram | null} The linked program, or null if the shaders don't compile or link.
+ */
+function makeProgram(gl: WebGLRenderingContext): WebGLProgram | null {
+  const program = gl.createProgram();
+  const vertexShader = makeShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+  const fragmentShader = makeShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+
+  let isLinked = false;
+  if (program && vertexShader && fragmentShader) {
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    isLinked = !!gl.getProgramParameter(program, gl.LINK_STATUS);
+  }
+
+  // The shaders are only flagged for deletion while attached, and are released with the program
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+  if (!isLinked) {
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+/**
+ * Compiles a shader.
+ *
+ * @internal
+ * @param {WebGLRenderingContext} gl - The WebGL context.
+ * @param {number} type - `VERTEX_SHADER` or `FRAGMENT_SHADER`.
+ * @param {string} source - The GLSL source.
+ * @returns {WebGLShader | null} The compiled shader, or null if it doesn't compile.
+ */
+function makeShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    return null;
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+/**
+ * Runs a function and restores the context state it changes: the viewport, the clear color
+ * and the blending. The WebGL parameters source reports these values.
+ *
+ * @internal
+ * @template T
+ * @param {WebGLRenderingContext} gl - The WebGL context.
+ * @param {() => T} action - The function changing the state.
+ * @returns {T} The function result.
+ */
+function withRestoredState<T>(gl: WebGLRenderingContext, action: () => T): T {
+  const viewport: Int32Array = gl.getParameter(gl.VIEWPORT);
+  const clearColor: Float32Array = gl.getParameter(gl.COLOR_CLEAR_VALUE);
+  const isBlendEnabled = gl.isEnabled(gl.BLEND);
+  const blendFunc = [gl.BLEND_SRC_RGB, gl.BLEND_DST_RGB, gl.BLEND_SRC_ALPHA, gl.BLEND_DST_ALPHA].map(
+    (name) => gl.getParameter(name) as number,
+  );
+
+  try {
+    return action();
+  } finally {
+    gl.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+    gl.clearColor(clearColor[0], clearColor[1], clearColor[2], clearColor[3]);
+    gl.blendFuncSeparate(blendFunc[0], blendFunc[1], blendFunc[2], blendFunc[3]);
+    if (!isBlendEnabled) {
+      gl.disable(gl.BLEND);
+    }
+  }
+}
@@ -5,19 +5,32 @@
  * GPU adapter. WebGPU is a modern graphics API that provides low-level,
  * high-performance access to GPU hardware.
  * 
+ * The adapter features and limits depend on the GPU, the driver and the browser, and are
+ * reported even when WebGL is masked. A small WGSL compute workload adds a GPU-level
+ * fingerprint: its floating-point output depends on how the GPU implements the math functions.
+ * 
  * @module sources/webgpu
  * @see https://www.w3.org/TR/webgpu/
  */
 
+import { stableHash } from "../hash";
+
 /**
  * Information about WebGPU support and adapter characteristics.
  * 
  * @typedef {Object} WebGpuInfo
  * @property {boolean} supported - Whether WebGPU is supported in the browser.
- * @property {boolean} [isFallbackAdapter] - Whether the adapter is a software fallback.
+ * @property {boolean} [isFallbackAdapter] - Whether the adapter is a software fallback. Also true when there is
+ *   no adapter, as in the first versions of the signals.
+ * @property {boolean} [adapterUnavailable] - Whether `requestAdapter()` returned no adapter, e.g. because the GPU
+ *   is blocklisted or WebGPU is disabled by a policy.
  * @property {string} [vendor] - GPU vendor identifier (e.g., 'apple', 'nvidia', 'amd').
  * @property {string} [architecture] - GPU architecture identifier.
  * @property {string} [device] - Specific device identifier.
+ * @property {string} [description] - Human-readable adapter description (e.g., the driver's GPU name).
+ * @property {string[]} [features] - Sorted names of the features the adapter supports.
+ * @property {Record<string, number>} [limits] - The adapter limits, keyed by name.
+ * @property {string} [preferredFormat] - The preferred canvas texture format (e.g., 'bgra8unorm').
  * 
  * @example
  * ```typescript
@@ -26,28 +39,47 @@
  *   isFallbackAdapter: false,
  *   vendor: 'apple',
  *   architecture: 'common-3',
- *   device: 'apple-m1'
+ *   device: 'apple-m1',
+ *   description: 'Apple M1',
+ *   features: ['depth-clip-control', 'float32-filterable', 'texture-compression-astc'],
+ *   limits: { maxBindGroups: 4, maxTextureDimension2D: 16384 },
+ *   preferredFormat: 'bgra8unorm'
  * };
  * ```
  */
 export type WebGpuInfo = {
   supported: boolean;
   isFallbackAdapter?: boolean;
+  adapterUnavailable?: boolean;
   vendor?: string;
   architecture?: string;
   device?: string;
+  description?: string;
+  features?: string[];
+  limits?: Record<string, number>;
+  preferredFormat?: string;
 };
 
+/**
+ * The WebGPU compute fingerprint: the hash of the compute workload output, or `unsupported`
+ * when WebGPU has no adapter or device.
+ * 
+ * @typedef {string} WebGpuComputeFingerprint
+ */
+export type WebGpuComputeFingerprint = string | "unsupported";
+
 /**
  * Detects WebGPU support and collects adapter information.
  * 
  * This function attempts to:
  * 1. Check if the WebGPU API is available (`navigator.gpu`)
  * 2. Request a GPU adapter
- * 3. Extract adapter information (vendor, architecture, device)
+ * 3. Extract adapter information (vendor, architecture, device, description),
+ *    features, limits and the preferred canvas format
  * 
  * If WebGPU is not supported or the adapter cannot be obtained, the function
- * returns minimal information indicating lack of support.
+ * returns minimal information indicating lack of support. Errors thrown by the
+ * WebGPU API (e.g. a rejected `requestAdapter()`) are propagated to the caller.
  * 
  * @returns {Promise<WebGpuInfo>} A promise resolving to WebGPU capability information.
  * 
@@ -63,28 +95,152 @@ export type WebGpuInfo = {
  * @public
  */
 export default async function getWebGpuInfo(): Promise<WebGpuInfo> {
-  try {
-    const nav: any = navigator as any;
-    const gpu = nav?.gpu;
-    if (!gpu || typeof gpu.requestAdapter !== "function") {
-      return { supported: false };
-    }
+  const nav: any = navigator as any;
+  const gpu = nav?.gpu;
+  if (!gpu || typeof gpu.requestAdapter !== "function") {
+    return { supported: false };
+  }
+
+  const adapter: any = await gpu.requestAdapter();
+  if (!adapter) {
+    // `isFallbackAdapter` is kept for the anchor, which has always hashed it this way
+    return { supported: true, isFallbackAdapter: true, adapterUnavailable: true };
+  }
 
-    const adapter: any = await gpu.requestAdapter();
-    if (!adapter) {
-      return { supported: true, isFallbackAdapter: true };
+  // `adapter.info` replaced `adapterInfo` (Chrome 127+); older versions only have the latter
+  const info = adapter.info || adapter.adapterInfo || {};
+  return {
+    supported: true,
+    isFallbackAdapter: (adapter as any).isFallbackAdapter === true,
+    vendor: typeof info.vendor === "string" ? info.vendor : undefined,
+    architecture:
+      typeof info.architecture === "string" ? info.architecture : undefined,
+    device: typeof info.device === "string" ? info.device : undefined,
+    description:
+      typeof info.description === "string" ? info.description : undefined,
+    features: adapter.features ? [...adapter.features].map(String).sort() : undefined,
+    limits: adapter.limits ? getLimits(adapter.limits) : undefined,
+    preferredFormat:
+      typeof gpu.getPreferredCanvasFormat === "function"
+        ? gpu.getPreferredCanvasFormat()
+        : undefined,
+  };
+}
+
+/**
+ * Copies the adapter limits into a plain object. The limits are attributes of the
+ * `GPUSupportedLimits` prototype, so they are enumerated with `for...in`.
+ * 
+ * @internal
+ * @param {any} limits - The `GPUSupportedLimits` of the adapter.
+ * @returns {Record<string, number>} The numeric limits keyed by name, in name order.
+ */
+function getLimits(limits: any): Record<string, number> {
+  const names: string[] = [];
+  for (const name in limits) {
+    if (typeof limits[name] === "number") {
+      names.push(name);
     }
+  }
 
-    const info = (adapter as any).adapterInfo || {};
-    return {
-      supported: true,
-      isFallbackAdapter: (adapter as any).isFallbackAdapter === true,
-      vendor: typeof info.vendor === "string" ? info.vendor : undefined,
-      architecture:
-        typeof info.architecture === "string" ? info.architecture : undefined,
-      device: typeof info.device === "string" ? info.device : undefined,
-    };
-  } catch {
-    return { supported: false };
+  const result: Record<string, number> = {};
+  for (const name of names.sort()) {
+    result[name] = limits[name];
+  }
+  return result;
+}
+
+/**
+ * Number of values computed by the compute workload: 4 workgroups of 64 invocations.
+ * @internal
+ */
+const computeSize = 256;
+
+// The transcendental functions amplify the differences in floating-point precision and
+// rounding between GPUs and drivers
+const computeShaderSource = `
+@group(0) @binding(0) var<storage, read_write> output: array<f32>;
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) id: vec3<u32>) {
+  let x = f32(id.x) * 0.1234567 + 0.5;
+  output[id.x] = sin(x * x) * exp(-x * 0.05) + sqrt(x) * cos(1.0 / x) + fract(tan(x) * 43758.5453);
+}`;
+
+// `GPUBufferUsage` and `GPUMapMode` flags. The globals are missing where WebGPU is unsupported.
+const BUFFER_USAGE_MAP_READ = 0x0001;
+const BUFFER_USAGE_COPY_SRC = 0x0004;
+const BUFFER_USAGE_COPY_DST = 0x0008;
+const BUFFER_USAGE_STORAGE = 0x0080;
+const MAP_MODE_READ = 0x0001;
+
+/**
+ * Runs a small WGSL compute workload and hashes its floating-point output.
+ * 
+ * The output depends on the GPU's implementation of the math functions, so it tells GPUs
+ * apart even when WebGL reports masked or identical values. Errors thrown by the WebGPU
+ * API are propagated to the caller.
+ * 
+ * @returns {Promise<WebGpuComputeFingerprint>} The hash of the output, or `unsupported`.
+ * 
+ * @example
+ * ```typescript
+ * const compute = await getWebGpuComputeFingerprint();
+ * if (compute !== 'unsupported') {
+ *   console.log('WebGPU compute hash:', compute);
+ * }
+ * ```
+ * 
+ * @public
+ */
+export async function getWebGpuComputeFingerprint(): Promise<WebGpuComputeFingerprint> {
+  const gpu = (navigator as any)?.gpu;
+  if (!gpu || typeof gpu.requestAdapter !== "function") {
+    return "unsupported";
+  }
+
+  const adapter: any = await gpu.requestAdapter();
+  const device: any = adapter && (await adapter.requestDevice());
+  if (!device) {
+    return "unsupported";
+  }
+
+  try {
+    const byteSize = computeSize * Float32Array.BYTES_PER_ELEMENT;
+    const output = device.createBuffer({
+      size: byteSize,
+      usage: BUFFER_USAGE_STORAGE | BUFFER_USAGE_COPY_SRC,
+    });
+    const readback = device.createBuffer({
+      size: byteSize,
+      usage: BUFFER_USAGE_MAP_READ | BUFFER_USAGE_COPY_DST,
+    });
+    const pipeline = device.createComputePipeline({
+      layout: "auto",
+      compute: {
+        module: device.createShaderModule({ code: computeShaderSource }),
+        entryPoint: "main",
+      },
+    });
+    const bindGroup = device.createBindGroup({
+      layout: pipeline.getBindGroupLayout(0),
+      entries: [{ binding: 0, resource: { buffer: output } }],
+    });
+
+    const encoder = device.createCommandEncoder();
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, bindGroup);
+    pass.dispatchWorkgroups(computeSize / 64);
+    pass.end();
+    encoder.copyBufferToBuffer(output, 0, readback, 0, byteSize);
+    device.queue.submit([encoder.finish()]);
+
+    await readback.mapAsync(MAP_MODE_READ);
+    const values = Array.from(new Float32Array(readback.getMappedRange()));
+    readback.unmap();
+    return stableHash(values);
+  } finally {
+    device.destroy();
   }
 }
@@ -8,8 +8,16 @@
  */
 
 import type { WebGlExtensionsPayload } from './sources/webgl';
-import type { WebGpuInfo } from './sources/webgpu';
+import type { WebGpuComputeFingerprint, WebGpuInfo } from './sources/webgpu';
 import type { EmeInfo } from './sources/eme';
+import type { MediaCodecsInfo } from './sources/mediaCodecs';
+import type { AudioGraphsFingerprint, SpecialAudioFingerprint } from './sources/audio';
+import type { AudioDeviceInfo } from './sources/audioDevice';
+import type { NotificationPermissionsInfo } from './sources/permissions';
+import type { CanvasFingerprint } from './sources/canvas';
+import type { FontsInfo } from './sources/fonts';
+import type { VoicesInfo } from './sources/voices';
+import type { WebGlRenderingPayload } from './sources/webglRendering';
 
 /**
  * Information about the precision and baseline characteristics of the browser's
@@ -18,18 +26,22 @@ import type { EmeInfo } from './sources/eme';
  * @interface PerformanceTimingInfo
  * @property {number} precision - The minimum detectable time difference (in milliseconds).
  * @property {number} baseline - The baseline time measurement (in milliseconds).
+ * @property {number} [resolution] - The smallest observed step of the clock (in milliseconds). Unlike
+ *   `precision`, it isn't capped at 1 ms. Undefined if the clock didn't tick during the measurement.
  * 
  * @example
  * ```typescript
  * const timing: PerformanceTimingInfo = {
  *   precision: 0.001,
- *   baseline: 0.005
+ *   baseline: 0.005,
+ *   resolution: 0.001
  * };
  * ```
  */
 export type PerformanceTimingInfo = {
   precision: number;
   baseline: number;
+  resolution?: number;
 };
 
 /**
@@ -76,6 +88,14 @@ export interface BrowserSignals {
    * @example 8
    */
   deviceMemory?: number;
+
+  /**
+   * The notification permission as reported by `Notification.permission` and by the Permissions API.
+   * Not part of the anchor: the bot detector compares the two states.
+   * 
+   * @example { permission: 'default', state: 'prompt' }
+   */
+  notificationPermissions?: NotificationPermissionsInfo;
   
   /**
    * WebGL context information including version, vendor, and renderer details.
@@ -113,17 +133,43 @@ export interface BrowserSignals {
    * parameters, shader precisions, and supported extensions.
    */
   webgExtensions?: WebGlExtensionsPayload | undefined;
+
+  /**
+   * WebGL2 parameters, extensions and shader precisions, in the same shape as `webgExtensions`.
+   * Includes the WebGL2-only limits (e.g. MAX_3D_TEXTURE_SIZE, MAX_SAMPLES, uniform buffer limits).
+   * Only part of the anchor when the `webgl2` source is configured with `includeInAnchor: true`.
+   */
+  webgl2?: WebGlExtensionsPayload;
   
   /**
-   * Audio fingerprint (or a lazy thunk resolving to one) as returned by the audio source.
+   * Resolved audio fingerprint as returned by the audio source.
+   * 
+   * Either the fingerprint value, or an object describing why the fingerprint
+   * is unavailable (e.g. the rendering timed out or the browser is known to
+   * add noise to audio). Only numeric values contribute to the anchor.
+   * 
+   * @example 123.456 or { special: 'timeout' }
+   */
+  audioFingerprint?: number | SpecialAudioFingerprint;
+
+  /**
+   * Hashes of the samples rendered by the audio graph variants (compressor, biquad filters,
+   * oscillator types, analyser FFT), or an object describing why they are unavailable.
+   * Only part of the anchor when the `audioGraphs` source is configured with `includeInAnchor: true`.
    * 
-   * Can be either a pre-computed number or a function that returns a promise
-   * resolving to the audio fingerprint. The lazy pattern is used to avoid
-   * blocking the main fingerprinting process.
+   * @example { compressor: '1a2b3c4d5e6f7a8b', biquad: '9c0d1e2f3a4b5c6d', oscillators: '7e8f9a0b1c2d3e4f' }
+   */
+  audioGraphs?: AudioGraphsFingerprint | SpecialAudioFingerprint;
+
+  /**
+   * Properties of the audio output device, read from a live (silent) `AudioContext`.
+   * They change with the output device, so they are only part of the anchor when the
+   * `audioDevice` source is configured with `includeInAnchor: true`.
    * 
-   * @example 123.456 or (() => Promise.resolve(123.456))
+   * @example { sampleRate: 48000, baseLatency: 0.01, outputLatency: 0.04, maxChannelCount: 2,
+   *   channelCountMode: 'explicit', channelInterpretation: 'speakers' }
    */
-  audioFingerprint?: number | (() => Promise<number>);
+  audioDevice?: AudioDeviceInfo;
   
   /**
    * Deterministic math fingerprint based on floating‑point quirks.
@@ -161,6 +207,15 @@ export interface BrowserSignals {
    * ```
    */
   webgpu?: WebGpuInfo;
+
+  /**
+   * WebGPU compute fingerprint: hash of the floating-point output of a small WGSL compute
+   * workload, or `unsupported`. The workload requests a GPU device, so the `webgpuCompute` source
+   * only runs once enabled; it's only part of the anchor when configured with `includeInAnchor: true`.
+   * 
+   * @example '5e6f7a8b9c0d1e2f'
+   */
+  webgpuCompute?: WebGpuComputeFingerprint;
   
   /**
    * Widevine / EME (Encrypted Media Extensions) support info.
@@ -170,6 +225,16 @@ export interface BrowserSignals {
    * @example { widevineSupported: true }
    */
   eme?: EmeInfo;
+
+  /**
+   * Support of a fixed list of audio and video codecs (AV1, HEVC, VP9, Opus, Dolby, etc.), with the
+   * smooth and power-efficient decoding flags of the Media Capabilities API. Only part of the anchor
+   * when the `mediaCodecs` source is configured with `includeInAnchor: true`.
+   * 
+   * @example { av1: { mediaSource: true, canPlayType: 'probably', supported: true, smooth: true, powerEfficient: true },
+   *   hevc: { mediaSource: false, canPlayType: '' } }
+   */
+  mediaCodecs?: MediaCodecsInfo;
   
   /**
    * Performance timing precision/baseline.
@@ -180,7 +245,113 @@ export interface BrowserSignals {
    * @example { precision: 0.001, baseline: 0.005 }
    */
   performanceTiming?: PerformanceTimingInfo;
+
+  /**
+   * Canvas 2D rendering fingerprint: hashes of text and geometry images, or `unstable` when
+   * the canvas output is randomized. Only part of the anchor when the `canvas` source is
+   * configured with `includeInAnchor: true`.
+   * 
+   * @example { winding: true, geometry: '1f2e3d4c5b6a7988', text: '8a9b0c1d2e3f4a5b' }
+   */
+  canvas?: CanvasFingerprint;
+
+  /**
+   * The installed fonts of a curated list of OS- and locale-specific fonts, and their hash.
+   * Only part of the anchor when the `fonts` source is configured with `includeInAnchor: true`.
+   * 
+   * @example { available: ['Calibri', 'Segoe UI Light'], hash: '3c5d7e9f1a2b4c6d' }
+   */
+  fonts?: FontsInfo;
+
+  /**
+   * The normalized, sorted speech synthesis voices, and their hash. Undefined without speech synthesis
+   * or when no voices load in time. Only part of the anchor when the `voices` source is configured
+   * with `includeInAnchor: true`.
+   * 
+   * @example { voices: ['google deutsch|de-de|remote'], hash: '2b4d6f8a0c1e3a5c' }
+   */
+  voices?: VoicesInfo;
+
+  /**
+   * WebGL rendering fingerprint: hash of the pixels of a fixed scene, or `unstable` when the
+   * WebGL readback is randomized. Only part of the anchor when the `webglRendering` source is
+   * configured with `includeInAnchor: true`.
+   * 
+   * @example '7c1e2f3a4b5d6e8f'
+   */
+  webglRendering?: WebGlRenderingPayload;
+
+  /**
+   * Values of the custom sources registered with `SourceRegistry.registerSource`, keyed by source name.
+   * 
+   * @example { appCapabilities: { payments: true } }
+   */
+  custom?: Record<string, unknown>;
+
+  /**
+   * Names of the custom and optional built-in sources registered with `includeInAnchor: true`.
+   * Their values are hashed into the anchor.
+   * 
+   * @example ['appCapabilities', 'canvas']
+   */
+  anchorSources?: string[];
 }
 
+/**
+ * Collection status of a signal source.
+ * 
+ * - `ok`: the source returned a value (which may still be `undefined` when the API is unavailable).
+ * - `error`: the source threw; see `Component.error`.
+ * - `noGlContext`: no WebGL context could be created.
+ * - `getParameterNotAFunction`: the WebGL context has no usable `getParameter` method.
+ * - `timeout`: the source didn't complete within its budget or the overall `timeout`.
+ * - `aborted`: the collection was aborted with an `AbortSignal` before the source completed.
+ * 
+ * @typedef {string} ComponentStatus
+ */
+export type ComponentStatus = 'ok' | 'error' | 'noGlContext' | 'getParameterNotAFunction' | 'timeout' | 'aborted';
 
+/**
+ * Envelope describing how a single signal source was collected.
+ * 
+ * @interface Component
+ * @template T
+ * @property {T} [value] - The collected value, when the source succeeded.
+ * @property {number} duration - Time spent collecting the source, in milliseconds.
+ * @property {ComponentStatus} status - Collection status.
+ * @property {Record<string, unknown>} [error] - The serialized error, when the status is `error`.
+ * 
+ * @example
+ * ```typescript
+ * const component: Component<EmeInfo> = {
+ *   duration: 12,
+ *   status: 'error',
+ *   error: { name: 'TypeError', message: '...' }
+ * };
+ * ```
+ */
+export interface Component<T = unknown> {
+  /**
+   * The collected value, when the source succeeded.
+   */
+  value?: T;
+  /**
+   * Time spent collecting the source, in milliseconds.
+   */
+  duration: number;
+  /**
+   * Collection status.
+   */
+  status: ComponentStatus;
+  /**
+   * The error thrown by the source, serialized with `errorToObject`, when the status is `error`.
+   */
+  error?: Record<string, unknown>;
+}
 
+/**
+ * Collection envelopes of all registered sources, keyed by source name.
+ * 
+ * @typedef {Record<string, Component>} Components
+ */
+export type Components = Record<string, Component>;
@@ -36,6 +36,34 @@ export function wait<T = void>(durationMs: number, resolveWith?: T): Promise<T>
   return new Promise((resolve) => setTimeout(resolve, durationMs, resolveWith))
 }
 
+/**
+ * Creates a promise that resolves when the given signal is aborted.
+ * The promise never settles if there is no signal or the signal is never aborted.
+ * 
+ * @param {AbortSignal} [signal] - The signal to observe.
+ * @returns {Promise<void>} A promise that resolves once the signal is aborted.
+ * 
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const result = await Promise.race([doWork(), waitForAbort(controller.signal).then(() => 'aborted')]);
+ * ```
+ * 
+ * @public
+ */
+export function waitForAbort(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (!signal) {
+      return
+    }
+    if (signal.aborted) {
+      resolve()
+    } else {
+      signal.addEventListener('abort', () => resolve(), { once: true })
+    }
+  })
+}
+
 /**
  * Allows asynchronous actions and microtasks to happen by yielding control to the event loop.
  * 